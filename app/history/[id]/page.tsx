@@ -0,0 +1,254 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import Link from "next/link"
+import { useParams, useRouter } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { LapList } from "@/components/lap-list"
+import { ElevationChart } from "@/components/elevation-chart"
+import { RouteCanvas } from "@/components/route-canvas"
+import { SessionTimeline } from "@/components/session-timeline"
+import { SplitsTable } from "@/components/splits-table"
+import { useFormat } from "@/hooks/use-format"
+import { ACTIVITIES, sessionActivity } from "@/lib/activities"
+import { downloadFile } from "@/lib/download"
+import type { ElevationSample } from "@/lib/elevation"
+import { elevationProfile, movingTime } from "@/lib/metrics"
+import { GPX_MIME_TYPE, gpxFileName, toGpx } from "@/lib/gpx"
+import { deleteSession, getSession } from "@/lib/session-store"
+import { computeSplits } from "@/lib/splits"
+import { TCX_MIME_TYPE, tcxFileName, toTcx } from "@/lib/tcx"
+import { splitSegments } from "@/lib/track"
+import type { JoggingSession } from "@/lib/types"
+import { ArrowLeft, Download, MapPin, Trash2 } from "lucide-react"
+
+export default function SessionDetail() {
+  const { id } = useParams<{ id: string }>()
+  const router = useRouter()
+  const [session, setSession] = useState<JoggingSession | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const format = useFormat()
+  const [hoveredSample, setHoveredSample] = useState<ElevationSample | null>(null)
+
+  useEffect(() => {
+    getSession(id)
+      .then((found) => {
+        if (found) {
+          setSession(found)
+        } else {
+          setError("This session could not be found.")
+        }
+      })
+      .catch((err) => {
+        console.error("Failed to load session:", err)
+        setError("Unable to load this session.")
+      })
+  }, [id])
+
+  const removeSession = async () => {
+    try {
+      await deleteSession(id)
+      router.push("/history")
+    } catch (err) {
+      console.error("Failed to delete session:", err)
+      setError("Unable to delete this session.")
+    }
+  }
+
+  const pauses = session?.transitions.filter((transition) => transition.state === "paused") ?? []
+  const autoPauses = pauses.filter((transition) => transition.reason === "auto")
+  const signalLostSeconds = session?.signalLost ? movingTime(session.signalLost, session.endTime) : 0
+
+  // Stored splits are reused when they match the preferred units, otherwise rebuilt from the track they were
+  // measured on, smoothed when available
+  const splits = useMemo(() => {
+    if (!session?.splits) return null
+    if ((session.splitUnit ?? "km") === format.distanceUnit) return session.splits
+    const track = session.smoothedPositions ?? session.positions
+    return computeSplits(splitSegments(track, session.transitions), format.distanceUnit)
+  }, [session, format.distanceUnit])
+
+  // Rebuilt from the track the stats were computed on, smoothed when available
+  const elevationSamples = useMemo(() => {
+    if (!session) return []
+    return elevationProfile(splitSegments(session.smoothedPositions ?? session.positions, session.transitions))
+  }, [session])
+
+  const exportGpx = () => {
+    if (!session) return
+    downloadFile(gpxFileName(session.startTime), toGpx(session, { units: format.units }), GPX_MIME_TYPE)
+  }
+
+  const exportTcx = () => {
+    if (!session) return
+    downloadFile(tcxFileName(session.startTime), toTcx(session, format.units), TCX_MIME_TYPE)
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-green-50 to-blue-50 p-4">
+      <div className="max-w-4xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <Button asChild variant="ghost" size="sm">
+            <Link href="/history" className="flex items-center gap-2">
+              <ArrowLeft className="h-4 w-4" />
+              All Sessions
+            </Link>
+          </Button>
+          {session && (
+            <div className="flex gap-2">
+              <Button onClick={exportGpx} variant="outline" size="sm" className="flex items-center gap-2">
+                <Download className="h-4 w-4" />
+                Export GPX
+              </Button>
+              <Button onClick={exportTcx} variant="outline" size="sm" className="flex items-center gap-2">
+                <Download className="h-4 w-4" />
+                Export TCX
+              </Button>
+              <Button onClick={removeSession} variant="outline" size="sm" className="flex items-center gap-2">
+                <Trash2 className="h-4 w-4" />
+                Delete
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {session && (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <MapPin className="h-5 w-5" />
+                  {format.date(session.startTime)}
+                </CardTitle>
+                <CardDescription>
+                  {ACTIVITIES[sessionActivity(session)].icon} {ACTIVITIES[sessionActivity(session)].label} •{" "}
+                  {session.positions.length} data points • finished at{" "}
+                  {new Date(session.endTime).toLocaleTimeString()}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <RouteCanvas
+                  positions={session.positions}
+                  distance={session.stats.distance}
+                  lapMarkers={session.laps?.map((lap) => lap.endPosition).filter((marker) => marker !== null)}
+                  highlight={hoveredSample}
+                />
+                {elevationSamples.length > 0 && (
+                  <div className="mt-4">
+                    <ElevationChart samples={elevationSamples} onHover={setHoveredSample} />
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>📊 Session Statistics</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-2">
+                  <div className="flex justify-between">
+                    <span>Total Distance:</span>
+                    <span className="font-mono">{format.distance(session.stats.distance)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Elapsed Time:</span>
+                    <span className="font-mono">{format.time(session.stats.duration)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Moving Time:</span>
+                    <span className="font-mono">{format.time(session.stats.movingTime)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Average Pace:</span>
+                    <span className="font-mono">{format.pace(session.stats.distance, session.stats.movingTime)}</span>
+                  </div>
+                  {session.stats.bestPace !== undefined && (
+                    <div className="flex justify-between">
+                      <span>Best Pace:</span>
+                      <span className="font-mono">{format.paceValue(session.stats.bestPace)}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between">
+                    <span>Average Speed:</span>
+                    <span className="font-mono">{format.speed(session.stats.averageSpeed, 2)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Max Speed:</span>
+                    <span className="font-mono">{format.speed(session.stats.maxSpeed, 2)}</span>
+                  </div>
+                  {session.signalLost && session.signalLost.length > 0 && (
+                    <div className="flex justify-between">
+                      <span>GPS Signal Lost:</span>
+                      <span className="font-mono">
+                        {session.signalLost.length} ({format.time(signalLostSeconds)} total)
+                      </span>
+                    </div>
+                  )}
+                  <div className="flex justify-between">
+                    <span>Pauses:</span>
+                    <span className="font-mono">
+                      {pauses.length} ({autoPauses.length} auto)
+                    </span>
+                  </div>
+                  {session.stats.ascent !== undefined && (
+                    <div className="flex justify-between">
+                      <span>Ascent / Descent:</span>
+                      <span className="font-mono">
+                        {format.length(session.stats.ascent)} / {format.length(session.stats.descent)}
+                      </span>
+                    </div>
+                  )}
+                  <div className="flex justify-between">
+                    <span>Calories Burned:</span>
+                    <span className="font-mono">{session.stats.calories} kcal</span>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            {session.laps && session.laps.length > 1 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Laps</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <LapList laps={session.laps} />
+                </CardContent>
+              </Card>
+            )}
+
+            {splits && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Splits</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <SplitsTable splits={splits} unitLabel={format.distanceUnit} />
+                </CardContent>
+              </Card>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Timeline</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <SessionTimeline session={session} />
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
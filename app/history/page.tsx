@@ -0,0 +1,244 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { useFormat } from "@/hooks/use-format"
+import { useProfile } from "@/hooks/use-profile"
+import { ACTIVITIES, ACTIVITY_TYPES, sessionActivity } from "@/lib/activities"
+import { listSessions, saveSession } from "@/lib/session-store"
+import { IMPORT_ACCEPT, importTrackFiles, type ImportResult } from "@/lib/track-import"
+import type { ActivityType, JoggingSession } from "@/lib/types"
+import { ArrowLeft, CheckCircle2, ChevronRight, History, Upload, XCircle } from "lucide-react"
+
+export default function SessionHistory() {
+  const [sessions, setSessions] = useState<JoggingSession[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [importing, setImporting] = useState(false)
+  const [importResults, setImportResults] = useState<ImportResult[]>([])
+  const [activityFilter, setActivityFilter] = useState<ActivityType | "all">("all")
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const format = useFormat()
+  const [profile] = useProfile()
+
+  const loadSessions = useCallback(() => {
+    listSessions()
+      .then(setSessions)
+      .catch((err) => {
+        console.error("Failed to load sessions:", err)
+        setError("Unable to load your saved sessions.")
+      })
+  }, [])
+
+  useEffect(() => {
+    loadSessions()
+  }, [loadSessions])
+
+  const filtered = useMemo(
+    () =>
+      sessions?.filter((session) => activityFilter === "all" || sessionActivity(session) === activityFilter) ?? null,
+    [sessions, activityFilter],
+  )
+
+  const totals = useMemo(
+    () =>
+      (filtered ?? []).reduce(
+        (sum, session) => ({
+          distance: sum.distance + session.stats.distance,
+          movingTime: sum.movingTime + session.stats.movingTime,
+          calories: sum.calories + session.stats.calories,
+        }),
+        { distance: 0, movingTime: 0, calories: 0 },
+      ),
+    [filtered],
+  )
+
+  // Parse and store the selected files, keeping a result line per file
+  const importFiles = async (files: File[]) => {
+    if (files.length === 0) return
+    setImporting(true)
+
+    const results = await importTrackFiles(files, profile.weight)
+    for (const result of results) {
+      if (!result.session) continue
+      try {
+        await saveSession(result.session)
+      } catch (err) {
+        console.error(`Failed to save ${result.fileName}:`, err)
+        result.error = "The track was read but could not be saved to the device."
+        result.session = undefined
+      }
+    }
+
+    setImportResults(results)
+    setImporting(false)
+    loadSessions()
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-green-50 to-blue-50 p-4">
+      <div className="max-w-4xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <Button asChild variant="ghost" size="sm">
+            <Link href="/" className="flex items-center gap-2">
+              <ArrowLeft className="h-4 w-4" />
+              Back
+            </Link>
+          </Button>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+            <History className="h-6 w-6" />
+            Session History
+          </h1>
+          <div className="w-20" />
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {/* Import */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              <span>Import Runs</span>
+              <Button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={importing}
+                variant="outline"
+                size="sm"
+                className="flex items-center gap-2"
+              >
+                <Upload className="h-4 w-4" />
+                {importing ? "Importing..." : "Choose Files"}
+              </Button>
+            </CardTitle>
+            <CardDescription>Add GPX 1.0/1.1, Garmin TCX or GeoJSON LineString files from your watch</CardDescription>
+          </CardHeader>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={IMPORT_ACCEPT}
+            multiple
+            className="hidden"
+            onChange={(event) => {
+              importFiles(Array.from(event.target.files ?? []))
+              event.target.value = ""
+            }}
+          />
+          {importResults.length > 0 && (
+            <CardContent className="space-y-2">
+              {importResults.map((result, index) =>
+                result.session ? (
+                  <Alert key={index}>
+                    <CheckCircle2 className="h-4 w-4 text-green-600" />
+                    <AlertTitle>{result.fileName}</AlertTitle>
+                    <AlertDescription>
+                      Imported {result.session.positions.length} points •{" "}
+                      <Link href={`/history/${result.session.id}`} className="underline">
+                        View session
+                      </Link>
+                    </AlertDescription>
+                  </Alert>
+                ) : (
+                  <Alert key={index} variant="destructive">
+                    <XCircle className="h-4 w-4" />
+                    <AlertTitle>{result.fileName}</AlertTitle>
+                    <AlertDescription>{result.error}</AlertDescription>
+                  </Alert>
+                ),
+              )}
+            </CardContent>
+          )}
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Past Sessions</CardTitle>
+            <CardDescription>
+              {filtered === null
+                ? "Loading sessions..."
+                : `${filtered.length} session${filtered.length === 1 ? "" : "s"} stored on this device`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <ToggleGroup
+              type="single"
+              size="sm"
+              variant="outline"
+              value={activityFilter}
+              onValueChange={(value) => value && setActivityFilter(value as ActivityType | "all")}
+              className="flex-wrap justify-start"
+            >
+              <ToggleGroupItem value="all">All</ToggleGroupItem>
+              {ACTIVITY_TYPES.map((type) => (
+                <ToggleGroupItem key={type} value={type} className="gap-1">
+                  <span>{ACTIVITIES[type].icon}</span>
+                  {ACTIVITIES[type].label}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+
+            {filtered && filtered.length > 0 && (
+              <div className="grid grid-cols-3 gap-4 text-center">
+                <div className="p-3 bg-green-50 rounded-lg">
+                  <div className="text-xl font-bold text-green-700">{format.distance(totals.distance)}</div>
+                  <div className="text-sm text-green-600">Total Distance</div>
+                </div>
+                <div className="p-3 bg-blue-50 rounded-lg">
+                  <div className="text-xl font-bold text-blue-700">{format.time(totals.movingTime)}</div>
+                  <div className="text-sm text-blue-600">Moving Time</div>
+                </div>
+                <div className="p-3 bg-orange-50 rounded-lg">
+                  <div className="text-xl font-bold text-orange-700">{totals.calories}</div>
+                  <div className="text-sm text-orange-600">Calories</div>
+                </div>
+              </div>
+            )}
+
+            {filtered && filtered.length === 0 && (
+              <p className="text-center text-gray-600 py-8">
+                {activityFilter === "all"
+                  ? "No sessions yet. Finish a jog to see it here."
+                  : `No ${ACTIVITIES[activityFilter].label.toLowerCase()} sessions yet.`}
+              </p>
+            )}
+            <div className="divide-y">
+              {filtered?.map((session) => (
+                <Link
+                  key={session.id}
+                  href={`/history/${session.id}`}
+                  className="flex items-center justify-between py-3 px-2 rounded-md hover:bg-gray-50"
+                >
+                  <div>
+                    <div className="font-medium">
+                      <span className="mr-2" title={ACTIVITIES[sessionActivity(session)].label}>
+                        {ACTIVITIES[sessionActivity(session)].icon}
+                      </span>
+                      {session.name ?? format.date(session.startTime)}
+                      {session.name && (
+                        <span className="ml-2 text-sm font-normal text-gray-500">{format.date(session.startTime)}</span>
+                      )}
+                    </div>
+                    <div className="text-sm text-gray-600 font-mono">
+                      {format.distance(session.stats.distance)} • {format.time(session.stats.movingTime)} •{" "}
+                      {ACTIVITIES[sessionActivity(session)].primaryDisplay === "speed"
+                        ? format.speed(session.stats.averageSpeed)
+                        : format.pace(session.stats.distance, session.stats.movingTime)}
+                    </div>
+                  </div>
+                  <ChevronRight className="h-4 w-4 text-gray-400" />
+                </Link>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
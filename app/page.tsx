@@ -1,46 +1,155 @@
 "use client"
 
-import { useState, useEffect, useRef, useCallback } from "react"
+import { useState, useEffect, useRef, useCallback, useMemo } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Alert, AlertDescription } from "@/components/ui/alert"
-import { Play, Pause, Square, MapPin, Wifi, WifiOff, Clock, Route, Zap } from "lucide-react"
-
-interface Position {
-  lat: number
-  lng: number
-  timestamp: number
-}
-
-interface JoggingStats {
-  distance: number
-  duration: number
-  averageSpeed: number
-  maxSpeed: number
-  calories: number
-}
-
-type JoggingState = "idle" | "running" | "paused" | "stopped"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { DeveloperCard } from "@/components/developer-card"
+import { ElevationChart } from "@/components/elevation-chart"
+import { LapList } from "@/components/lap-list"
+import { NotificationLog } from "@/components/notification-log"
+import { OfflineMapCard } from "@/components/offline-map-card"
+import { PreferencesCard } from "@/components/preferences-card"
+import { ProfileCard } from "@/components/profile-card"
+import { RouteCanvas } from "@/components/route-canvas"
+import { SplitsTable } from "@/components/splits-table"
+import { useFormat } from "@/hooks/use-format"
+import { useProfile } from "@/hooks/use-profile"
+import { useSettings } from "@/hooks/use-settings"
+import { ACTIVITIES, ACTIVITY_TYPES } from "@/lib/activities"
+import { monotonicNow } from "@/lib/clock"
+import { downloadFile } from "@/lib/download"
+import type { ElevationSample } from "@/lib/elevation"
+import { GPX_MIME_TYPE, gpxFileName, toGpx } from "@/lib/gpx"
+import {
+  ACCURACY_THRESHOLDS,
+  checkFix,
+  DEFAULT_GPS_FILTER,
+  NO_DISCARDED_FIXES,
+  totalDiscarded,
+  type DiscardedFixes,
+  type DiscardReason,
+  type GpsFilterConfig,
+} from "@/lib/gps-filter"
+import {
+  AUTO_PAUSE_SPEEDS,
+  DEFAULT_AUTO_PAUSE,
+  IDLE_DETECTOR,
+  measuredSpeed,
+  shouldPauseOnTick,
+  updateAutoPause,
+  type AutoPauseAction,
+  type AutoPauseConfig,
+  type AutoPauseDetector,
+} from "@/lib/auto-pause"
+import {
+  createGeolocationTracker,
+  describeGpsStatus,
+  GPS_GUIDANCE,
+  GPS_IDLE,
+  GPS_PERMISSION_HINTS,
+  watchGpsPermission,
+  type GeolocationTracker,
+  type GpsPermission,
+  type GpsStatus,
+} from "@/lib/geolocation"
+import { browserLocationProvider, type LocationProvider } from "@/lib/location-provider"
+import { DEFAULT_KALMAN, smoothPosition, type KalmanConfig, type KalmanState } from "@/lib/kalman"
+import { closeLap, createLapTracker, currentLap, recordLapSpeed, type LapSnapshot, type LapTracker } from "@/lib/laps"
+import {
+  accumulate,
+  addPosition,
+  elevationProfile,
+  elevationSample,
+  EMPTY_METRICS,
+  movingTime,
+  resetPaceWindow,
+  segmentSpeed,
+  toStats,
+  type MetricsAccumulator,
+} from "@/lib/metrics"
+import {
+  addSplitPoint,
+  buildSplitTracker,
+  createSplitTracker,
+  currentSplits,
+  type SplitTracker,
+} from "@/lib/splits"
+import { DEFAULT_SIMULATION, playbackRate, simulatedProvider, type SimulationConfig } from "@/lib/simulated-location"
+import { TCX_MIME_TYPE, tcxFileName, toTcx } from "@/lib/tcx"
+import { closeInterval, hasOpenInterval, openInterval, splitSegments } from "@/lib/track"
+import { clearNotificationLog, notify } from "@/lib/notifications"
+import { checkpointSegments, finalizeCheckpoint, interruptCheckpoint } from "@/lib/recovery"
+import {
+  INITIAL_SESSION,
+  isFinished,
+  isLive,
+  isRecording,
+  sessionReducer,
+  type SessionEvent,
+  type SessionMachine,
+} from "@/lib/session-machine"
+import { clearCheckpoint, createSessionId, readCheckpoint, saveSession, writeCheckpoint } from "@/lib/session-store"
+import {
+  EMPTY_STATS,
+  type JoggingSession,
+  type JoggingStats,
+  type ActivityType,
+  type Lap,
+  type Position,
+  type RecoveredCheckpoint,
+  type SessionCheckpoint,
+  type Split,
+  type SplitUnit,
+  type TimeInterval,
+} from "@/lib/types"
+import Link from "next/link"
+import {
+  Play,
+  Pause,
+  Square,
+  MapPin,
+  Wifi,
+  WifiOff,
+  Clock,
+  Route,
+  Zap,
+  History,
+  Download,
+  Flag,
+  RotateCcw,
+  Satellite,
+} from "lucide-react"
+
+// Checkpoint the session in progress after this many new fixes, and at least this often
+const CHECKPOINT_EVERY = 5
+const CHECKPOINT_INTERVAL = 10000 // ms
 
 export default function JoggingAssistant() {
-  const [state, setState] = useState<JoggingState>("idle")
+  const [settings, updateSettings] = useSettings()
+  const activity = settings.activity
+  const format = useFormat()
+  const [profile] = useProfile()
+  // Lifecycle and timeline of the session; the geolocation callbacks read it through machineRef
+  const [machine, setMachine] = useState<SessionMachine>(INITIAL_SESSION)
+  const { state, startTime, transitions } = machine
   const [positions, setPositions] = useState<Position[]>([])
+  const [smoothedPositions, setSmoothedPositions] = useState<Position[]>([])
+  const [elevationSamples, setElevationSamples] = useState<ElevationSample[]>([])
+  const [hoveredSample, setHoveredSample] = useState<ElevationSample | null>(null)
   const [currentPosition, setCurrentPosition] = useState<Position | null>(null)
-  const [stats, setStats] = useState<JoggingStats>({
-    distance: 0,
-    duration: 0,
-    averageSpeed: 0,
-    maxSpeed: 0,
-    calories: 0,
-  })
+  const [stats, setStats] = useState<JoggingStats>(EMPTY_STATS)
   const [networkStatus, setNetworkStatus] = useState<{
     online: boolean
     effectiveType?: string
     downlink?: number
   }>({ online: navigator.onLine })
   const [showNetworkAlert, setShowNetworkAlert] = useState(false)
-  const [lastActivity, setLastActivity] = useState(Date.now())
   const [isStatsVisible, setIsStatsVisible] = useState(false)
   const [apiStatus, setApiStatus] = useState({
     geolocation: false,
@@ -48,14 +157,100 @@ export default function JoggingAssistant() {
     canvas: false,
     intersectionObserver: false,
   })
-  const [startTime, setStartTime] = useState<number | null>(null)
-
-  const canvasRef = useRef<HTMLCanvasElement>(null)
-  const watchIdRef = useRef<number | null>(null)
-  const timerRef = useRef<NodeJS.Timeout | null>(null)
+  const [gpsFilter, setGpsFilter] = useState<GpsFilterConfig>(DEFAULT_GPS_FILTER)
+  const [gpsAccuracy, setGpsAccuracy] = useState<number | null>(null)
+  const [gpsStatus, setGpsStatus] = useState<GpsStatus>(GPS_IDLE)
+  const [gpsPermission, setGpsPermission] = useState<GpsPermission | null>(null)
+  // Developer mode can feed the session from a replayed or synthetic track instead of the device GPS
+  const [simulation, setSimulation] = useState<SimulationConfig>(DEFAULT_SIMULATION)
+  const [discardedFixes, setDiscardedFixes] = useState<DiscardedFixes>(NO_DISCARDED_FIXES)
+  const [kalman, setKalman] = useState<KalmanConfig>(DEFAULT_KALMAN)
+  const [autoPause, setAutoPause] = useState<AutoPauseConfig>(DEFAULT_AUTO_PAUSE)
+  // Splits follow the units preference: kilometres for metric, miles for imperial
+  const splitUnit: SplitUnit = format.distanceUnit
+  const [splits, setSplits] = useState<Split[]>([])
+  const [laps, setLaps] = useState<Lap[]>([])
+  // How many signal-lost periods the session had, for the timeline; the periods themselves live in a ref
+  const [signalLostCount, setSignalLostCount] = useState(0)
+  const [routeView, setRouteView] = useState<"raw" | "smoothed">("smoothed")
+  const [lastSession, setLastSession] = useState<JoggingSession | null>(null)
+  const [saveStatus, setSaveStatus] = useState<"idle" | "saving" | "error">("idle")
+  // A session left behind by a crashed or reloaded tab, waiting for the user to resume or finalize it
+  const [recovered, setRecovered] = useState<RecoveredCheckpoint | null>(null)
+
+  const trackerRef = useRef<GeolocationTracker | null>(null)
+  const providerRef = useRef<LocationProvider>(browserLocationProvider)
   const statsObserverRef = useRef<IntersectionObserver | null>(null)
   const statsRef = useRef<HTMLDivElement>(null)
-  const durationTimerRef = useRef<NodeJS.Timeout | null>(null)
+  const machineRef = useRef<SessionMachine>(machine)
+  const metricsRef = useRef<MetricsAccumulator>(EMPTY_METRICS)
+  const signalLostRef = useRef<TimeInterval[]>([])
+  const gpsFilterRef = useRef<GpsFilterConfig>(gpsFilter)
+  const kalmanRef = useRef<KalmanConfig>(kalman)
+  const kalmanStateRef = useRef<KalmanState | null>(null)
+  const autoPauseRef = useRef<AutoPauseConfig>(autoPause)
+  const weightRef = useRef(profile.weight)
+  const activityRef = useRef<ActivityType>(activity)
+  const autoPauseDetectorRef = useRef<AutoPauseDetector>(IDLE_DETECTOR)
+  const autoPausedRef = useRef(false)
+  const lastFixRef = useRef<Position | null>(null)
+  const splitTrackerRef = useRef<SplitTracker>(createSplitTracker())
+  const lapTrackerRef = useRef<LapTracker>(createLapTracker(0))
+  // Set while paused so the next recorded fix does not count the pause as distance or split time
+  const resumedRef = useRef(false)
+  // Number of fixes already written to the checkpoint store, and the writer for the latest render
+  const checkpointedRef = useRef(0)
+  const flushCheckpointRef = useRef<() => void>(() => {})
+
+  // Callbacks read the signal-lost periods from the ref; their count is mirrored into state for rendering
+  const setSignalLost = useCallback((intervals: TimeInterval[]) => {
+    signalLostRef.current = intervals
+    setSignalLostCount(intervals.length)
+  }, [])
+
+  useEffect(() => {
+    gpsFilterRef.current = gpsFilter
+  }, [gpsFilter])
+
+  useEffect(() => {
+    kalmanRef.current = kalman
+  }, [kalman])
+
+  useEffect(() => {
+    autoPauseRef.current = autoPause
+  }, [autoPause])
+
+  useEffect(() => {
+    weightRef.current = profile.weight
+  }, [profile.weight])
+
+  // Each activity brings its own outlier limit and auto-pause thresholds; both stay adjustable afterwards
+  useEffect(() => {
+    activityRef.current = activity
+    const { maxSpeed, pauseSpeed, resumeSpeed } = ACTIVITIES[activity]
+    setGpsFilter((prev) => ({ ...prev, maxSpeed }))
+    setAutoPause((prev) => ({ ...prev, pauseSpeed, resumeSpeed }))
+  }, [activity])
+
+  // Picking an activity also switches to its usual pace or speed display
+  const changeActivity = (next: ActivityType) => {
+    updateSettings({ activity: next, primaryDisplay: ACTIVITIES[next].primaryDisplay })
+  }
+
+  // Feed an event to the session state machine. The ref is updated at once because the geolocation callbacks
+  // outlive renders; the metrics side of entering running or leaving it happens here too. Returns whether the
+  // current state accepted the event.
+  const send = useCallback((event: SessionEvent) => {
+    const previous = machineRef.current
+    const next = sessionReducer(previous, event)
+    if (next === previous) return false
+
+    machineRef.current = next
+    setMachine(next)
+    if (next.state === "running") metricsRef.current = resetPaceWindow(metricsRef.current)
+    else if (previous.state === "running") resumedRef.current = true
+    return true
+  }, [])
 
   // Network Information API monitoring
   useEffect(() => {
@@ -127,443 +322,454 @@ export default function JoggingAssistant() {
     })
   }, [])
 
-  // Calculate distance between two positions using Haversine formula
-  const calculateDistance = useCallback((pos1: Position, pos2: Position): number => {
-    const R = 6371000 // Earth's radius in meters
-    const dLat = ((pos2.lat - pos1.lat) * Math.PI) / 180
-    const dLng = ((pos2.lng - pos1.lng) * Math.PI) / 180
-    const a =
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos((pos1.lat * Math.PI) / 180) *
-        Math.cos((pos2.lat * Math.PI) / 180) *
-        Math.sin(dLng / 2) *
-        Math.sin(dLng / 2)
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
-    return R * c
+  // Publish the running totals; O(1) since the metrics are accumulated per fix
+  const refreshStats = useCallback(() => {
+    const now = monotonicNow()
+    const { startTime, activeIntervals } = machineRef.current
+    const duration = startTime ? (now - startTime) / 1000 : 0
+    setStats(toStats(metricsRef.current, duration, movingTime(activeIntervals, now)))
   }, [])
 
-  // Update statistics
-  const updateStats = useCallback(
-    (newPositions: Position[]) => {
-      const currentTime = Date.now()
-      const duration = startTime ? (currentTime - startTime) / 1000 : 0
-
-      if (newPositions.length < 2) {
-        // Even with one position, we can show time and basic stats
-        setStats((prev) => ({
-          ...prev,
-          duration,
-          distance: 0,
-          averageSpeed: 0,
-          maxSpeed: 0,
-          calories: 0,
-        }))
-        return
+  // Pause or resume on behalf of the speed-based detector, without blocking the UI
+  const applyAutoPause = useCallback(
+    (action: Exclude<AutoPauseAction, null>) => {
+      if (action === "pause") {
+        if (!send({ type: "pause", at: monotonicNow(), reason: "auto" })) return
+        autoPausedRef.current = true
+        notify({
+          title: "Auto-paused",
+          description: "You stopped moving. Tracking resumes when you start again.",
+          key: "auto-pause",
+          action: {
+            label: "Resume",
+            onAction: () => {
+              if (!send({ type: "resume", at: monotonicNow() })) return
+              autoPausedRef.current = false
+              autoPauseDetectorRef.current = IDLE_DETECTOR
+            },
+          },
+        })
+      } else {
+        if (!send({ type: "resume", at: monotonicNow(), reason: "auto" })) return
+        autoPausedRef.current = false
+        notify({ title: "Auto-resumed", description: "Movement detected, tracking resumed.", key: "auto-resume" })
       }
+    },
+    [send],
+  )
 
-      let totalDistance = 0
-      let maxSpeed = 0
+  const countDiscarded = useCallback((reason: DiscardReason) => {
+    setDiscardedFixes((prev) => ({ ...prev, [reason]: prev[reason] + 1 }))
+  }, [])
 
-      for (let i = 1; i < newPositions.length; i++) {
-        const distance = calculateDistance(newPositions[i - 1], newPositions[i])
-        totalDistance += distance
+  // Handle one fix from the geolocation tracker
+  const handleFix = useCallback(
+    (newPos: Position) => {
+      setGpsAccuracy(newPos.accuracy ?? null)
 
-        const timeDiff = (newPositions[i].timestamp - newPositions[i - 1].timestamp) / 1000 // seconds
-        if (timeDiff > 0) {
-          const speed = (distance / timeDiff) * 3.6 // km/h
-          maxSpeed = Math.max(maxSpeed, speed)
-        }
+      // Only recorded fixes are checked for impossible jumps; the accuracy gate applies to every fix
+      const rejection = checkFix(
+        newPos,
+        machineRef.current.state === "running" ? metricsRef.current.lastPosition : null,
+        gpsFilterRef.current,
+      )
+      if (rejection) {
+        countDiscarded(rejection)
+        return
       }
 
-      const averageSpeed = duration > 0 ? (totalDistance / duration) * 3.6 : 0
-      const calories = Math.round(totalDistance * 0.05) // Rough estimate
+      setCurrentPosition(newPos)
+
+      // The first usable fix starts the recording
+      if (send({ type: "fix", at: newPos.timestamp })) lapTrackerRef.current = createLapTracker(newPos.timestamp)
+
+      // Speed-based auto-pause runs while moving, and while auto-paused to detect the restart
+      const speed = measuredSpeed(lastFixRef.current, newPos)
+      lastFixRef.current = newPos
+      if (machineRef.current.state === "running" || autoPausedRef.current) {
+        const result = updateAutoPause(
+          autoPauseDetectorRef.current,
+          speed,
+          newPos.timestamp,
+          autoPausedRef.current,
+          autoPauseRef.current,
+        )
+        autoPauseDetectorRef.current = result.detector
+        if (result.action) applyAutoPause(result.action)
+      }
 
-      setStats({
-        distance: totalDistance,
-        duration,
-        averageSpeed,
-        maxSpeed,
-        calories,
-      })
+      if (machineRef.current.state === "running") {
+        // Both tracks are kept; the smoothing setting decides which one feeds the metrics
+        const smoothed = smoothPosition(kalmanStateRef.current, newPos, kalmanRef.current)
+        kalmanStateRef.current = smoothed.state
+        const tracked = kalmanRef.current.enabled ? smoothed.position : newPos
+        const previous = metricsRef.current.lastPosition
+        const lapSpeed = previous && !resumedRef.current ? segmentSpeed(previous, tracked) : null
+        lapTrackerRef.current = recordLapSpeed(lapTrackerRef.current, lapSpeed)
+        metricsRef.current = addPosition(metricsRef.current, tracked, {
+          weight: weightRef.current,
+          activity: activityRef.current,
+          resumed: resumedRef.current,
+        })
+        const sample = elevationSample(metricsRef.current, tracked)
+        if (sample) setElevationSamples((prev) => [...prev, sample])
+        splitTrackerRef.current = addSplitPoint(
+          splitTrackerRef.current,
+          tracked,
+          resumedRef.current,
+          sample?.elevation ?? null,
+        )
+        resumedRef.current = false
+        setSplits(currentSplits(splitTrackerRef.current))
+        setPositions((prev) => [...prev, newPos])
+        setSmoothedPositions((prev) => [...prev, smoothed.position])
+        refreshStats()
+      }
     },
-    [calculateDistance, startTime],
+    [send, refreshStats, applyAutoPause, countDiscarded],
   )
 
-  // Draw route on canvas
-  const drawRoute = useCallback(() => {
-    const canvas = canvasRef.current
-    if (!canvas) return
-
-    const ctx = canvas.getContext("2d")
-    if (!ctx) return
-
-    // Clear canvas
-    ctx.clearRect(0, 0, canvas.width, canvas.height)
-
-    // Draw background grid for reference
-    ctx.strokeStyle = "#f0f0f0"
-    ctx.lineWidth = 1
-    const gridSize = 20
-    for (let x = 0; x <= canvas.width; x += gridSize) {
-      ctx.beginPath()
-      ctx.moveTo(x, 0)
-      ctx.lineTo(x, canvas.height)
-      ctx.stroke()
-    }
-    for (let y = 0; y <= canvas.height; y += gridSize) {
-      ctx.beginPath()
-      ctx.moveTo(0, y)
-      ctx.lineTo(canvas.width, y)
-      ctx.stroke()
+  // Surface tracker problems, and time the signal-lost periods of a live session for its timeline
+  const handleGpsStatus = useCallback((status: GpsStatus) => {
+    setGpsStatus(status)
+    const live = isRecording(machineRef.current.state)
+    const retryGps = { label: "Retry GPS", onAction: () => trackerRef.current?.start() }
+
+    if (status.state === "retrying") {
+      if (live) setSignalLost(openInterval(signalLostRef.current, monotonicNow()))
+      // Later attempts only update the status badge
+      if (status.attempt === 1) {
+        notify({ ...GPS_GUIDANCE[status.error], severity: "warning", key: "gps-signal", action: retryGps })
+      }
+    } else if (status.state === "failed") {
+      if (live) setSignalLost(openInterval(signalLostRef.current, monotonicNow()))
+      notify({ ...GPS_GUIDANCE[status.error], severity: "error", key: "gps-failed", action: retryGps })
+    } else if (status.state === "tracking" && hasOpenInterval(signalLostRef.current)) {
+      setSignalLost(closeInterval(signalLostRef.current, monotonicNow()))
+      notify({ title: "GPS signal restored", severity: "success", key: "gps-restored" })
     }
+  }, [setSignalLost])
+
+  const tracker = useMemo(
+    () =>
+      createGeolocationTracker({
+        onPosition: handleFix,
+        onDiscard: countDiscarded,
+        onStatus: handleGpsStatus,
+        provider: () => providerRef.current,
+      }),
+    [handleFix, countDiscarded, handleGpsStatus],
+  )
 
-    // If we have at least one position, show it
-    if (positions.length === 0 && !currentPosition) {
-      // Show "waiting for GPS" message
-      ctx.fillStyle = "#666"
-      ctx.font = "16px Arial"
-      ctx.textAlign = "center"
-      ctx.fillText("Waiting for GPS signal...", canvas.width / 2, canvas.height / 2)
-      return
-    }
+  useEffect(() => {
+    trackerRef.current = tracker
+    return () => tracker.stop()
+  }, [tracker])
 
-    // Combine all positions (including current position if available)
-    const allPositions = [...positions]
-    if (
-      currentPosition &&
-      (positions.length === 0 ||
-        positions[positions.length - 1].lat !== currentPosition.lat ||
-        positions[positions.length - 1].lng !== currentPosition.lng)
-    ) {
-      allPositions.push(currentPosition)
+  // Show the permission state before Start, and follow changes made in the browser settings
+  useEffect(() => {
+    let cancelled = false
+    let unsubscribe = () => {}
+    watchGpsPermission((permission) => {
+      if (!cancelled) setGpsPermission(permission)
+    }).then((stop) => {
+      if (cancelled) stop()
+      else unsubscribe = stop
+    })
+    return () => {
+      cancelled = true
+      unsubscribe()
     }
+  }, [])
 
-    if (allPositions.length === 0) return
-
-    // Calculate bounds with minimum area for short distances
-    const lats = allPositions.map((p) => p.lat)
-    const lngs = allPositions.map((p) => p.lng)
-    let minLat = Math.min(...lats)
-    let maxLat = Math.max(...lats)
-    let minLng = Math.min(...lngs)
-    let maxLng = Math.max(...lngs)
-
-    // Add padding for very small movements (less than ~10 meters)
-    const latRange = maxLat - minLat
-    const lngRange = maxLng - minLng
-    const minRange = 0.0001 // roughly 10 meters
-
-    if (latRange < minRange) {
-      const center = (minLat + maxLat) / 2
-      minLat = center - minRange / 2
-      maxLat = center + minRange / 2
+  // The watcher runs from Start until the session stops; each session gets a fresh provider, so a simulated
+  // track starts from its beginning. A simulation above 1× speeds up the session clock for as long as it runs.
+  const live = isLive(state)
+  useEffect(() => {
+    if (!live) return
+    providerRef.current = settings.developerMode ? simulatedProvider(simulation) : browserLocationProvider
+    monotonicNow.setRate(settings.developerMode ? playbackRate(simulation) : 1)
+    tracker.start()
+    return () => {
+      tracker.stop()
+      monotonicNow.setRate(1)
     }
+    // Only crossing into or out of a live session restarts the watcher
+  }, [live, tracker])
 
-    if (lngRange < minRange) {
-      const center = (minLng + maxLng) / 2
-      minLng = center - minRange / 2
-      maxLng = center + minRange / 2
-    }
+  // Auto-pause detection for when fixes stop arriving altogether
+  useEffect(() => {
+    if (state !== "running") return
 
-    const padding = 40
-    const width = canvas.width - 2 * padding
-    const height = canvas.height - 2 * padding
+    const checkActivity = setInterval(() => {
+      if (shouldPauseOnTick(autoPauseDetectorRef.current, monotonicNow(), autoPauseRef.current)) {
+        autoPauseDetectorRef.current = IDLE_DETECTOR
+        applyAutoPause("pause")
+      }
+    }, 1000)
+    return () => clearInterval(checkActivity)
+  }, [state, applyAutoPause])
 
-    // Convert lat/lng to canvas coordinates
-    const toCanvasCoords = (pos: Position) => ({
-      x: padding + ((pos.lng - minLng) / (maxLng - minLng)) * width,
-      y: padding + ((maxLat - pos.lat) / (maxLat - minLat)) * height,
-    })
+  // Start a new session; recording begins with the first fix, and its first checkpoint replaces any unrecovered one
+  const startJogging = () => {
+    if (!send({ type: "start" })) return
+    autoPausedRef.current = false
+    autoPauseDetectorRef.current = IDLE_DETECTOR
+    setRecovered(null)
+    clearNotificationLog()
+    checkpointedRef.current = 0
+  }
 
-    // Draw route path if we have multiple positions
-    if (allPositions.length > 1) {
-      ctx.strokeStyle = "#3b82f6"
-      ctx.lineWidth = 4
-      ctx.lineCap = "round"
-      ctx.lineJoin = "round"
-      ctx.beginPath()
-
-      allPositions.forEach((pos, index) => {
-        const coords = toCanvasCoords(pos)
-        if (index === 0) {
-          ctx.moveTo(coords.x, coords.y)
-        } else {
-          ctx.lineTo(coords.x, coords.y)
-        }
-      })
-      ctx.stroke()
-
-      // Draw direction arrows along the path
-      if (allPositions.length > 1) {
-        ctx.fillStyle = "#3b82f6"
-        for (let i = 1; i < allPositions.length; i++) {
-          const start = toCanvasCoords(allPositions[i - 1])
-          const end = toCanvasCoords(allPositions[i])
-          const angle = Math.atan2(end.y - start.y, end.x - start.x)
-
-          // Draw small arrow at midpoint
-          const midX = (start.x + end.x) / 2
-          const midY = (start.y + end.y) / 2
-
-          ctx.save()
-          ctx.translate(midX, midY)
-          ctx.rotate(angle)
-          ctx.beginPath()
-          ctx.moveTo(-5, -3)
-          ctx.lineTo(5, 0)
-          ctx.lineTo(-5, 3)
-          ctx.closePath()
-          ctx.fill()
-          ctx.restore()
-        }
-      }
-    }
+  // Give up waiting for the first fix
+  const cancelJogging = () => {
+    send({ type: "cancel" })
+  }
 
-    // Draw start point (green)
-    if (allPositions.length > 0) {
-      const startCoords = toCanvasCoords(allPositions[0])
-      ctx.fillStyle = "#10b981"
-      ctx.strokeStyle = "#ffffff"
-      ctx.lineWidth = 2
-      ctx.beginPath()
-      ctx.arc(startCoords.x, startCoords.y, 8, 0, 2 * Math.PI)
-      ctx.fill()
-      ctx.stroke()
-
-      // Add "START" label
-      ctx.fillStyle = "#10b981"
-      ctx.font = "12px Arial"
-      ctx.textAlign = "center"
-      ctx.fillText("START", startCoords.x, startCoords.y - 15)
-    }
+  const resumeJogging = () => {
+    if (!send({ type: "resume", at: monotonicNow() })) return
+    autoPausedRef.current = false
+    autoPauseDetectorRef.current = IDLE_DETECTOR
+  }
 
-    // Draw current position (red) - only if different from start
-    if (currentPosition && allPositions.length > 0) {
-      const currentCoords = toCanvasCoords(currentPosition)
-      const startCoords = toCanvasCoords(allPositions[0])
+  const lapMarkers = useMemo(() => laps.map((lap) => lap.endPosition).filter((marker) => marker !== null), [laps])
 
-      // Only draw if current position is different from start (moved at least a few pixels)
-      const distance = Math.sqrt(
-        Math.pow(currentCoords.x - startCoords.x, 2) + Math.pow(currentCoords.y - startCoords.y, 2),
-      )
-      if (distance > 5 || allPositions.length > 1) {
-        ctx.fillStyle = "#ef4444"
-        ctx.strokeStyle = "#ffffff"
-        ctx.lineWidth = 2
-        ctx.beginPath()
-        ctx.arc(currentCoords.x, currentCoords.y, 10, 0, 2 * Math.PI)
-        ctx.fill()
-        ctx.stroke()
-
-        // Add pulsing effect for current position
-        ctx.strokeStyle = "#ef4444"
-        ctx.lineWidth = 1
-        ctx.beginPath()
-        ctx.arc(currentCoords.x, currentCoords.y, 15, 0, 2 * Math.PI)
-        ctx.stroke()
-
-        // Add "YOU" label
-        ctx.fillStyle = "#ef4444"
-        ctx.font = "12px Arial"
-        ctx.textAlign = "center"
-        ctx.fillText("YOU", currentCoords.x, currentCoords.y + 25)
-      }
-    }
+  // Session totals at `timestamp` for lap boundaries
+  const lapSnapshot = (timestamp: number): LapSnapshot => ({
+    timestamp,
+    distance: metricsRef.current.distance,
+    movingTime: movingTime(machineRef.current.activeIntervals, timestamp),
+    position: metricsRef.current.lastPosition,
+  })
 
-    // Show distance info if we have movement
-    if (allPositions.length > 1) {
-      const totalDistance = stats.distance
-      ctx.fillStyle = "#666"
-      ctx.font = "14px Arial"
-      ctx.textAlign = "left"
-      ctx.fillText(`Distance: ${totalDistance}`, 10, 25)
-      ctx.fillText(`Points: ${allPositions.length}`, 10, 45)
-    }
-  }, [positions, currentPosition, stats.distance])
+  // Close the current lap and start a new one
+  const markLap = () => {
+    lapTrackerRef.current = closeLap(lapTrackerRef.current, lapSnapshot(monotonicNow()))
+    setLaps(lapTrackerRef.current.laps)
+  }
 
-  // Geolocation tracking
-  const startTracking = useCallback(() => {
-    if (!navigator.geolocation) {
-      alert("Geolocation is not supported by this browser.")
-      return
-    }
+  const pauseJogging = () => {
+    if (send({ type: "pause", at: monotonicNow() })) autoPausedRef.current = false
+  }
 
-    const options = {
-      enableHighAccuracy: true,
-      maximumAge: 1000, // use cached fix if it’s <1 s old
-      timeout: 20000, // 20 s to acquire a first fix
+  // Stop recording and save the session; the watcher stops with the state change
+  const stopJogging = () => {
+    const endTime = monotonicNow()
+    if (!send({ type: "stop", at: endTime })) return
+    const { startTime, transitions, activeIntervals } = machineRef.current
+    if (startTime === null) return
+    setSignalLost(closeInterval(signalLostRef.current, endTime))
+
+    // The lap in progress ends with the session
+    const finalLaps = closeLap(lapTrackerRef.current, lapSnapshot(endTime)).laps
+    setLaps(finalLaps)
+
+    const session: JoggingSession = {
+      id: createSessionId(),
+      activity,
+      startTime,
+      endTime,
+      positions,
+      smoothedPositions,
+      splits: currentSplits(splitTrackerRef.current),
+      splitUnit,
+      laps: finalLaps,
+      stats: toStats(metricsRef.current, (endTime - startTime) / 1000, movingTime(activeIntervals, endTime)),
+      transitions,
+      activeIntervals,
+      signalLost: signalLostRef.current,
     }
+    setLastSession(session)
+    persistSession(session)
+  }
 
-    watchIdRef.current = navigator.geolocation.watchPosition(
-      (position) => {
-        const newPos: Position = {
-          lat: position.coords.latitude,
-          lng: position.coords.longitude,
-          timestamp: Date.now(),
-        }
-
-        setCurrentPosition(newPos)
-        setLastActivity(Date.now())
-
-        if (state === "running") {
-          setPositions((prev) => {
-            const updated = [...prev, newPos]
-            updateStats(updated)
-            return updated
-          })
-        }
-      },
-      (error) => {
-        console.error("Geolocation error:", error)
-        if (error.code === error.TIMEOUT) {
-          // Retry once with a fresh getCurrentPosition call
-          navigator.geolocation.getCurrentPosition(
-            () => {
-              // Retry succeeded – restart watchPosition
-              stopTracking()
-              startTracking()
-            },
-            (err) => {
-              console.error("Retry geolocation error:", err)
-              alert("Unable to retrieve your location. Please ensure GPS is enabled and grant permission.")
-            },
-            { enableHighAccuracy: true, timeout: 20000, maximumAge: 1000 },
-          )
-        } else {
-          alert("Unable to retrieve your location. Please check your GPS settings.")
-        }
-      },
-      options,
-    )
-  }, [state, updateStats])
-
-  const stopTracking = useCallback(() => {
-    if (watchIdRef.current !== null) {
-      navigator.geolocation.clearWatch(watchIdRef.current)
-      watchIdRef.current = null
+  // Save a stopped session to the history store; the checkpoint is only dropped once the session is safe
+  const persistSession = async (session: JoggingSession) => {
+    setSaveStatus("saving")
+    try {
+      await saveSession(session)
+      setSaveStatus("idle")
+      send({ type: "saved" })
+      await clearCheckpoint()
+    } catch (error) {
+      console.error("Failed to save session:", error)
+      setSaveStatus("error")
     }
-  }, [])
+  }
 
-  // Auto-pause detection
+  // Re-derive the splits from the recorded track when the units preference switches between km and mi
   useEffect(() => {
-    if (state === "running") {
-      const checkActivity = () => {
-        const now = Date.now()
-        if (now - lastActivity > 30000) {
-          // 30 seconds of inactivity
-          setState("paused")
-          alert("Jogging paused due to inactivity. Tap Resume to continue.")
-        }
-      }
+    if (splitTrackerRef.current.unit === splitUnit) return
+    const track = kalman.enabled ? smoothedPositions : positions
+    splitTrackerRef.current = buildSplitTracker(splitSegments(track, transitions), splitUnit)
+    setSplits(currentSplits(splitTrackerRef.current))
+  }, [splitUnit, kalman.enabled, smoothedPositions, positions, transitions])
 
-      timerRef.current = setInterval(checkActivity, 5000)
-    } else {
-      if (timerRef.current) {
-        clearInterval(timerRef.current)
-        timerRef.current = null
+  // Checkpoint writer for the latest render; only fixes recorded since the previous write are sent
+  useEffect(() => {
+    flushCheckpointRef.current = () => {
+      const { state: current, startTime, transitions, activeIntervals } = machineRef.current
+      if (startTime === null || (current !== "running" && current !== "paused")) return
+
+      const from = checkpointedRef.current
+      checkpointedRef.current = positions.length
+      const checkpoint: SessionCheckpoint = {
+        startTime,
+        state: current,
+        activity,
+        splitUnit,
+        smoothed: kalman.enabled,
+        transitions,
+        activeIntervals,
+        lapTracker: lapTrackerRef.current,
+        signalLost: signalLostRef.current,
+        updatedAt: monotonicNow(),
       }
+      writeCheckpoint(checkpoint, positions.slice(from), smoothedPositions.slice(from), from === 0).catch((error) => {
+        console.error("Failed to checkpoint session:", error)
+        // Rewrite the whole track next time rather than leave a gap
+        checkpointedRef.current = 0
+      })
     }
+  })
+
+  useEffect(() => {
+    if (positions.length - checkpointedRef.current >= CHECKPOINT_EVERY) flushCheckpointRef.current()
+  }, [positions.length])
+
+  // While live, checkpoint on every state change, on a heartbeat and when the tab is hidden or closed
+  useEffect(() => {
+    if (!isRecording(state)) return
+
+    const flush = () => flushCheckpointRef.current()
+    const flushIfHidden = () => {
+      if (document.visibilityState === "hidden") flush()
+    }
+    flush()
+    const heartbeat = setInterval(flush, CHECKPOINT_INTERVAL)
+    window.addEventListener("pagehide", flush)
+    document.addEventListener("visibilitychange", flushIfHidden)
 
     return () => {
-      if (timerRef.current) {
-        clearInterval(timerRef.current)
-      }
-      if (durationTimerRef.current) {
-        clearInterval(durationTimerRef.current)
-      }
+      clearInterval(heartbeat)
+      window.removeEventListener("pagehide", flush)
+      document.removeEventListener("visibilitychange", flushIfHidden)
     }
-  }, [state, lastActivity])
+  }, [state])
 
-  // Start/Resume jogging
-  const startJogging = () => {
-    setState("running")
-    setLastActivity(Date.now())
+  // Offer to recover a session left behind by a crashed or reloaded tab
+  useEffect(() => {
+    readCheckpoint()
+      .then((checkpoint) => {
+        if (checkpoint && checkpoint.positions.length > 0) setRecovered(checkpoint)
+        else if (checkpoint) return clearCheckpoint()
+      })
+      .catch((error) => console.error("Failed to read session checkpoint:", error))
+  }, [])
 
-    // Set start time if this is a new session
-    if (positions.length === 0) {
-      setStartTime(Date.now())
-      startTracking()
-    }
+  // The recovered session as it would be saved now, for the prompt and for "Save & finish"
+  const recoveredSession = useMemo(
+    () => (recovered ? finalizeCheckpoint(recovered, profile.weight) : null),
+    [recovered, profile.weight],
+  )
 
-    // Start duration timer that updates every second
-    durationTimerRef.current = setInterval(() => {
-      if (startTime) {
-        const currentDuration = (Date.now() - startTime) / 1000
-        setStats((prev) => ({ ...prev, duration: currentDuration }))
-      }
-    }, 1000)
+  // Continue a recovered session; the time the tab was gone counts as a pause
+  const resumeRecovered = () => {
+    if (!recovered) return
+    const checkpoint = interruptCheckpoint(recovered)
+    const segments = checkpointSegments(checkpoint)
+    setRecovered(null)
+
+    updateSettings({ activity: checkpoint.activity })
+    setKalman((prev) => ({ ...prev, enabled: checkpoint.smoothed }))
+    setPositions(checkpoint.positions)
+    setSmoothedPositions(checkpoint.smoothedPositions)
+    checkpointedRef.current = checkpoint.positions.length
+    setSignalLost(checkpoint.signalLost ?? [])
+    metricsRef.current = accumulate(segments, { weight: profile.weight, activity: checkpoint.activity })
+    setElevationSamples(elevationProfile(segments))
+    splitTrackerRef.current = buildSplitTracker(segments, checkpoint.splitUnit)
+    setSplits(currentSplits(splitTrackerRef.current))
+    lapTrackerRef.current = checkpoint.lapTracker
+    setLaps(checkpoint.lapTracker.laps)
+
+    // The next fix starts a new segment, and smoothing starts over from it
+    lastFixRef.current = null
+    kalmanStateRef.current = null
+    resumedRef.current = true
+    autoPausedRef.current = false
+    autoPauseDetectorRef.current = IDLE_DETECTOR
+    send({ type: "restore", checkpoint })
+    send({ type: "resume", at: monotonicNow() })
+    refreshStats()
   }
 
-  // Pause jogging
-  const pauseJogging = () => {
-    setState("paused")
-    // Stop duration timer when paused
-    if (durationTimerRef.current) {
-      clearInterval(durationTimerRef.current)
-      durationTimerRef.current = null
+  // Save a recovered session as it stood when recording stopped
+  const finishRecovered = async () => {
+    if (!recoveredSession) return
+    const summary = format.summary(recoveredSession.stats.distance, recoveredSession.stats.movingTime)
+    setRecovered(null)
+    try {
+      await saveSession(recoveredSession)
+      await clearCheckpoint()
+      notify({ title: "Session recovered", description: `${summary} saved to history.`, severity: "success" })
+    } catch (error) {
+      console.error("Failed to save recovered session:", error)
+      notify({ title: "Could not save the recovered session", severity: "error" })
     }
   }
 
-  // Stop jogging
-  const stopJogging = () => {
-    setState("stopped")
-    stopTracking()
-    // Stop duration timer
-    if (durationTimerRef.current) {
-      clearInterval(durationTimerRef.current)
-      durationTimerRef.current = null
-    }
+  const discardRecovered = () => {
+    setRecovered(null)
+    clearCheckpoint().catch((error) => console.error("Failed to discard session checkpoint:", error))
   }
 
-  // Reset session
-  const resetSession = () => {
-    setState("idle")
-    setPositions([])
-    setCurrentPosition(null)
-    setStartTime(null)
-    setStats({
-      distance: 0,
-      duration: 0,
-      averageSpeed: 0,
-      maxSpeed: 0,
-      calories: 0,
-    })
-    stopTracking()
-    // Clear duration timer
-    if (durationTimerRef.current) {
-      clearInterval(durationTimerRef.current)
-      durationTimerRef.current = null
-    }
+  // Download the stopped session as a GPX track
+  const exportGpx = () => {
+    if (!lastSession) return
+    downloadFile(gpxFileName(lastSession.startTime), toGpx(lastSession, { units: format.units }), GPX_MIME_TYPE)
   }
 
-  // Draw route when positions change
-  useEffect(() => {
-    drawRoute()
-  }, [drawRoute])
-
-  const formatTime = (seconds: number) => {
-    const mins = Math.floor(seconds / 60)
-    const secs = Math.floor(seconds % 60)
-    return `${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`
+  // Download the stopped session as a TCX activity with its laps
+  const exportTcx = () => {
+    if (!lastSession) return
+    downloadFile(tcxFileName(lastSession.startTime), toTcx(lastSession, format.units), TCX_MIME_TYPE)
   }
 
-  const formatDistance = (meters: number) => {
-    if (meters < 1000) {
-      return `${Math.round(meters)}m`
-    }
-    return `${(meters / 1000).toFixed(2)}km`
+  // Reset session
+  const resetSession = () => {
+    send({ type: "reset" })
+    setPositions([])
+    lastFixRef.current = null
+    autoPausedRef.current = false
+    autoPauseDetectorRef.current = IDLE_DETECTOR
+    setSmoothedPositions([])
+    setElevationSamples([])
+    setHoveredSample(null)
+    setSplits([])
+    splitTrackerRef.current = createSplitTracker(splitUnit)
+    resumedRef.current = false
+    kalmanStateRef.current = null
+    setCurrentPosition(null)
+    setGpsAccuracy(null)
+    setDiscardedFixes(NO_DISCARDED_FIXES)
+    checkpointedRef.current = 0
+    metricsRef.current = EMPTY_METRICS
+    lapTrackerRef.current = createLapTracker(0)
+    setLaps([])
+    setSignalLost([])
+    setStats(EMPTY_STATS)
+    setLastSession(null)
+    setSaveStatus("idle")
   }
 
-  // Update stats every second when running
+  // Update stats every second while the session is live; elapsed time keeps counting during pauses
   useEffect(() => {
-    if (state === "running" && startTime) {
-      const statsUpdateInterval = setInterval(() => {
-        updateStats(positions)
-      }, 1000)
+    if (isRecording(state) && startTime) {
+      const statsUpdateInterval = setInterval(refreshStats, 1000)
 
       return () => clearInterval(statsUpdateInterval)
     }
-  }, [state, startTime, positions, updateStats])
+  }, [state, startTime, refreshStats])
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-green-50 to-blue-50 p-4">
@@ -578,6 +784,12 @@ export default function JoggingAssistant() {
           <p className="text-gray-600">
             Real-time GPS tracking • Network monitoring • Canvas route visualization • Performance optimized
           </p>
+          <Button asChild variant="outline" size="sm">
+            <Link href="/history" className="flex items-center gap-2">
+              <History className="h-4 w-4" />
+              Session History
+            </Link>
+          </Button>
         </div>
 
         {/* API Status Indicator */}
@@ -609,6 +821,33 @@ export default function JoggingAssistant() {
           </CardContent>
         </Card>
 
+        {/* Recovered Session */}
+        {recovered && recoveredSession && state === "idle" && (
+          <Alert className="border-blue-200 bg-blue-50">
+            <RotateCcw className="h-4 w-4" />
+            <AlertDescription className="space-y-3">
+              <p>
+                An unfinished {ACTIVITIES[recovered.activity].label.toLowerCase()} from{" "}
+                {format.date(recovered.startTime)} was found:{" "}
+                {format.summary(recoveredSession.stats.distance, recoveredSession.stats.movingTime)}. Resume it, save
+                it as it stands or discard it.
+              </p>
+              <div className="flex flex-wrap gap-2">
+                <Button size="sm" onClick={resumeRecovered} className="flex items-center gap-2">
+                  <Play className="h-4 w-4" />
+                  Resume
+                </Button>
+                <Button size="sm" variant="outline" onClick={finishRecovered}>
+                  Save &amp; finish
+                </Button>
+                <Button size="sm" variant="ghost" onClick={discardRecovered}>
+                  Discard
+                </Button>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
         {/* Network Status Alert */}
         {showNetworkAlert && (
           <Alert className="border-orange-200 bg-orange-50">
@@ -631,59 +870,182 @@ export default function JoggingAssistant() {
               </Badge>
             </CardTitle>
             <CardDescription>
-              Current Status: <Badge variant="outline">{state.charAt(0).toUpperCase() + state.slice(1)}</Badge>
+              Current Status:{" "}
+              <Badge variant="outline">
+                {state.charAt(0).toUpperCase() + state.slice(1)}
+                {state === "paused" && transitions[transitions.length - 1]?.reason === "auto" && " (auto)"}
+              </Badge>{" "}
+              {gpsStatus.state !== "idle" && (
+                <Badge
+                  variant={gpsStatus.state === "tracking" || gpsStatus.state === "acquiring" ? "outline" : "destructive"}
+                >
+                  {describeGpsStatus(gpsStatus)}
+                </Badge>
+              )}
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
+            {/* Activity Type */}
+            {state === "idle" && (
+              <ToggleGroup
+                type="single"
+                variant="outline"
+                value={activity}
+                onValueChange={(value) => value && changeActivity(value as ActivityType)}
+                className="flex-wrap"
+              >
+                {ACTIVITY_TYPES.map((type) => (
+                  <ToggleGroupItem key={type} value={type} className="gap-1">
+                    <span>{ACTIVITIES[type].icon}</span>
+                    {ACTIVITIES[type].label}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            )}
+            {state === "idle" &&
+              gpsPermission &&
+              gpsPermission !== "unsupported" &&
+              (!settings.developerMode || simulation.source === "device") && (
+                <p className={`text-sm ${gpsPermission === "denied" ? "text-red-600" : "text-gray-600"}`}>
+                  📍 {GPS_PERMISSION_HINTS[gpsPermission]}
+                </p>
+              )}
+
+            {/* GPS problems stay on screen, with what to do about them, until tracking recovers */}
+            {(gpsStatus.state === "retrying" || gpsStatus.state === "failed") && (
+              <Alert variant={gpsStatus.state === "failed" ? "destructive" : "default"}>
+                <MapPin className="h-4 w-4" />
+                <AlertDescription className="flex flex-wrap items-center justify-between gap-2">
+                  <span>
+                    <strong>{GPS_GUIDANCE[gpsStatus.error].title}.</strong> {GPS_GUIDANCE[gpsStatus.error].description}
+                  </span>
+                  <Button size="sm" variant="outline" onClick={() => tracker.start()}>
+                    Retry GPS
+                  </Button>
+                </AlertDescription>
+              </Alert>
+            )}
+
             {/* Control Buttons */}
             <div className="flex gap-2 justify-center">
               {state === "idle" && (
                 <Button onClick={startJogging} className="flex items-center gap-2">
                   <Play className="h-4 w-4" />
-                  Start Jogging
+                  Start {ACTIVITIES[activity].label}
                 </Button>
               )}
+              {state === "acquiring" && (
+                <>
+                  <Button disabled className="flex items-center gap-2">
+                    <Satellite className="h-4 w-4 animate-pulse" />
+                    Waiting for GPS...
+                  </Button>
+                  <Button onClick={cancelJogging} variant="outline">
+                    Cancel
+                  </Button>
+                </>
+              )}
               {state === "running" && (
                 <Button onClick={pauseJogging} variant="outline" className="flex items-center gap-2 bg-transparent">
                   <Pause className="h-4 w-4" />
                   Pause
                 </Button>
               )}
+              {isRecording(state) && (
+                <Button onClick={markLap} variant="outline" className="flex items-center gap-2 bg-transparent">
+                  <Flag className="h-4 w-4" />
+                  Lap
+                </Button>
+              )}
               {state === "paused" && (
-                <Button onClick={startJogging} className="flex items-center gap-2">
+                <Button onClick={resumeJogging} className="flex items-center gap-2">
                   <Play className="h-4 w-4" />
                   Resume
                 </Button>
               )}
-              {(state === "running" || state === "paused") && (
+              {isRecording(state) && (
                 <Button onClick={stopJogging} variant="destructive" className="flex items-center gap-2">
                   <Square className="h-4 w-4" />
                   Stop
                 </Button>
               )}
-              {state === "stopped" && (
+              {isFinished(state) && lastSession && (
+                <Button onClick={exportGpx} variant="outline" className="flex items-center gap-2">
+                  <Download className="h-4 w-4" />
+                  Export GPX
+                </Button>
+              )}
+              {isFinished(state) && lastSession && (
+                <Button onClick={exportTcx} variant="outline" className="flex items-center gap-2">
+                  <Download className="h-4 w-4" />
+                  Export TCX
+                </Button>
+              )}
+              {isFinished(state) && (
                 <Button onClick={resetSession} variant="outline">
                   New Session
                 </Button>
               )}
             </div>
+            {isFinished(state) && (saveStatus !== "idle" || state === "saved") && (
+              <p className="text-center text-sm text-gray-600">
+                {saveStatus === "saving" && "Saving session..."}
+                {state === "saved" && (
+                  <>
+                    Session saved.{" "}
+                    <Link href="/history" className="underline">
+                      View history
+                    </Link>
+                  </>
+                )}
+                {saveStatus === "error" && "Could not save this session to the device."}
+              </p>
+            )}
+
+            {/* Laps */}
+            {laps.length > 0 && (
+              <LapList
+                laps={laps}
+                current={
+                  isRecording(state)
+                    ? currentLap(lapTrackerRef.current, {
+                        timestamp: monotonicNow(),
+                        distance: stats.distance,
+                        movingTime: stats.movingTime,
+                        position: null,
+                      })
+                    : null
+                }
+              />
+            )}
 
             {/* Real-time Stats */}
             <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
               <div className="text-center p-3 bg-blue-50 rounded-lg">
                 <Clock className="h-5 w-5 mx-auto mb-1 text-blue-600" />
-                <div className="text-2xl font-bold text-blue-700">{formatTime(stats.duration)}</div>
-                <div className="text-sm text-blue-600">Time</div>
+                <div className="text-2xl font-bold text-blue-700">{format.time(stats.movingTime)}</div>
+                <div className="text-sm text-blue-600">Moving Time</div>
               </div>
               <div className="text-center p-3 bg-green-50 rounded-lg">
                 <Route className="h-5 w-5 mx-auto mb-1 text-green-600" />
-                <div className="text-2xl font-bold text-green-700">{stats.distance}</div>
+                <div className="text-2xl font-bold text-green-700">{format.distance(stats.distance)}</div>
                 <div className="text-sm text-green-600">Distance</div>
               </div>
               <div className="text-center p-3 bg-purple-50 rounded-lg">
                 <Zap className="h-5 w-5 mx-auto mb-1 text-purple-600" />
-                <div className="text-2xl font-bold text-purple-700">{stats.averageSpeed.toFixed(1)}</div>
-                <div className="text-sm text-purple-600">Avg Speed (km/h)</div>
+                {settings.primaryDisplay === "pace" ? (
+                  <>
+                    <div className="text-2xl font-bold text-purple-700">{format.paceValue(stats.currentPace)}</div>
+                    <div className="text-sm text-purple-600">Pace • avg {format.paceValue(stats.averagePace)}</div>
+                  </>
+                ) : (
+                  <>
+                    <div className="text-2xl font-bold text-purple-700">{format.speedValue(stats.currentSpeed)}</div>
+                    <div className="text-sm text-purple-600">
+                      Speed ({format.speedUnit}) • avg {format.speedValue(stats.averageSpeed)}
+                    </div>
+                  </>
+                )}
               </div>
               <div className="text-center p-3 bg-orange-50 rounded-lg">
                 <span className="text-lg mx-auto mb-1 block">🔥</span>
@@ -697,9 +1059,21 @@ export default function JoggingAssistant() {
         {/* Route Visualization */}
         <Card>
           <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <MapPin className="h-5 w-5" />
-              Route Map
+            <CardTitle className="flex flex-wrap items-center justify-between gap-2">
+              <span className="flex items-center gap-2">
+                <MapPin className="h-5 w-5" />
+                Route Map
+              </span>
+              <ToggleGroup
+                type="single"
+                size="sm"
+                variant="outline"
+                value={routeView}
+                onValueChange={(value) => value && setRouteView(value as "raw" | "smoothed")}
+              >
+                <ToggleGroupItem value="raw">Raw</ToggleGroupItem>
+                <ToggleGroupItem value="smoothed">Smoothed</ToggleGroupItem>
+              </ToggleGroup>
             </CardTitle>
             <CardDescription>
               Your jogging path is drawn in real-time
@@ -708,25 +1082,45 @@ export default function JoggingAssistant() {
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <canvas
-              ref={canvasRef}
-              width={800}
-              height={400}
-              className="w-full h-64 md:h-96 border rounded-lg bg-gray-50"
+            <RouteCanvas
+              positions={routeView === "smoothed" ? smoothedPositions : positions}
+              currentPosition={currentPosition}
+              distance={stats.distance}
+              lapMarkers={lapMarkers}
+              highlight={hoveredSample}
             />
             <div className="flex items-center gap-4 mt-2 text-sm text-gray-600">
               <div className="flex items-center gap-1">
                 <div className="w-3 h-3 bg-green-500 rounded-full"></div>
                 Start Point
               </div>
-              <div className="flex items-center gap-1">
-                <div className="w-3 h-3 bg-blue-500 rounded-full"></div>
-                Route Path
-              </div>
+              {settings.routeColoring === "plain" && (
+                <div className="flex items-center gap-1">
+                  <div className="w-3 h-3 bg-blue-500 rounded-full"></div>
+                  Route Path
+                </div>
+              )}
               <div className="flex items-center gap-1">
                 <div className="w-3 h-3 bg-red-500 rounded-full"></div>
                 Current Position
               </div>
+              <div className="flex items-center gap-2 ml-auto">
+                <Switch
+                  id="kalman-smoothing"
+                  checked={kalman.enabled}
+                  onCheckedChange={(enabled) => setKalman((prev) => ({ ...prev, enabled }))}
+                />
+                <Label htmlFor="kalman-smoothing">Smooth distance &amp; speed</Label>
+              </div>
+            </div>
+            <div className="mt-4 space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <h3 className="font-semibold">Elevation</h3>
+                <span className="font-mono text-gray-600">
+                  ↑ {format.length(stats.ascent)} • ↓ {format.length(stats.descent)}
+                </span>
+              </div>
+              <ElevationChart samples={elevationSamples} onHover={setHoveredSample} />
             </div>
           </CardContent>
         </Card>
@@ -748,19 +1142,41 @@ export default function JoggingAssistant() {
                     <div className="space-y-2">
                       <div className="flex justify-between">
                         <span>Total Distance:</span>
-                        <span className="font-mono">{formatDistance(stats.distance)}</span>
+                        <span className="font-mono">{format.distance(stats.distance)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>Elapsed Time:</span>
+                        <span className="font-mono">{format.time(stats.duration)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>Moving Time:</span>
+                        <span className="font-mono">{format.time(stats.movingTime)}</span>
                       </div>
                       <div className="flex justify-between">
-                        <span>Duration:</span>
-                        <span className="font-mono">{formatTime(stats.duration)}</span>
+                        <span>Current Pace:</span>
+                        <span className="font-mono">{format.paceValue(stats.currentPace)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>Average Pace:</span>
+                        <span className="font-mono">{format.paceValue(stats.averagePace)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>Best Pace:</span>
+                        <span className="font-mono">{format.paceValue(stats.bestPace)}</span>
                       </div>
                       <div className="flex justify-between">
                         <span>Average Speed:</span>
-                        <span className="font-mono">{stats.averageSpeed.toFixed(2)} km/h</span>
+                        <span className="font-mono">{format.speed(stats.averageSpeed, 2)}</span>
                       </div>
                       <div className="flex justify-between">
                         <span>Max Speed:</span>
-                        <span className="font-mono">{stats.maxSpeed.toFixed(2)} km/h</span>
+                        <span className="font-mono">{format.speed(stats.maxSpeed, 2)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>Ascent / Descent:</span>
+                        <span className="font-mono">
+                          {format.length(stats.ascent)} / {format.length(stats.descent)}
+                        </span>
                       </div>
                       <div className="flex justify-between">
                         <span>Calories Burned:</span>
@@ -782,13 +1198,66 @@ export default function JoggingAssistant() {
                           {networkStatus.effectiveType && ` (${networkStatus.effectiveType})`}
                         </span>
                       </div>
+                      <div className="flex justify-between">
+                        <span>Signal Lost:</span>
+                        <span className="font-mono">{signalLostCount}</span>
+                      </div>
                       <div className="flex justify-between">
                         <span>GPS Accuracy:</span>
-                        <span className="font-mono">{currentPosition ? "High" : "Searching..."}</span>
+                        <span className="font-mono">
+                          {gpsAccuracy !== null ? `±${format.length(gpsAccuracy)}` : "Searching..."}
+                        </span>
+                      </div>
+                      <div className="flex justify-between items-center">
+                        <span>Accuracy Filter:</span>
+                        <Select
+                          value={String(gpsFilter.maxAccuracy)}
+                          onValueChange={(value) => setGpsFilter((prev) => ({ ...prev, maxAccuracy: Number(value) }))}
+                        >
+                          <SelectTrigger className="w-28 h-8 font-mono">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {ACCURACY_THRESHOLDS.map((threshold) => (
+                              <SelectItem key={threshold} value={String(threshold)}>
+                                ≤ {format.length(threshold)}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
                       </div>
                       <div className="flex justify-between">
+                        <span>Discarded Fixes:</span>
+                        <span className="font-mono">
+                          {totalDiscarded(discardedFixes)} ({discardedFixes.accuracy} inaccurate,{" "}
+                          {discardedFixes.speed} jumps, {discardedFixes.late + discardedFixes.duplicate} out of order)
+                        </span>
+                      </div>
+                      <div className="flex justify-between items-center">
                         <span>Auto-pause:</span>
-                        <span className="font-mono">Enabled</span>
+                        <div className="flex items-center gap-2">
+                          <Select
+                            value={String(autoPause.pauseSpeed)}
+                            onValueChange={(value) => setAutoPause((prev) => ({ ...prev, pauseSpeed: Number(value) }))}
+                            disabled={!autoPause.enabled}
+                          >
+                            <SelectTrigger className="w-32 h-8 font-mono">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {AUTO_PAUSE_SPEEDS.map((speed) => (
+                                <SelectItem key={speed} value={String(speed)}>
+                                  &lt; {format.speed(speed)}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <Switch
+                            checked={autoPause.enabled}
+                            onCheckedChange={(enabled) => setAutoPause((prev) => ({ ...prev, enabled }))}
+                            aria-label="Auto-pause"
+                          />
+                        </div>
                       </div>
                       <div className="flex justify-between">
                         <span>Session Status:</span>
@@ -803,11 +1272,40 @@ export default function JoggingAssistant() {
                     </div>
                   </div>
                 </div>
+                <div className="space-y-3 mt-6">
+                  <h3 className="font-semibold text-lg">Splits</h3>
+                  <SplitsTable splits={splits} unitLabel={splitUnit} />
+                </div>
               </CardContent>
             )}
           </Card>
         </div>
 
+        {/* Notifications raised during the run, for review once it is over */}
+        {isFinished(state) && (
+          <Card>
+            <CardHeader>
+              <CardTitle>🔔 Notifications</CardTitle>
+              <CardDescription>Alerts raised while this session was recording</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <NotificationLog />
+            </CardContent>
+          </Card>
+        )}
+
+        {settings.developerMode && (
+          <DeveloperCard
+            config={simulation}
+            onChange={setSimulation}
+            disabled={isLive(state)}
+          />
+        )}
+
+        <PreferencesCard />
+        <OfflineMapCard center={currentPosition} />
+        <ProfileCard />
+
         {/* Safety Tips */}
         <Card className="bg-yellow-50 border-yellow-200">
           <CardHeader>
@@ -818,7 +1316,7 @@ export default function JoggingAssistant() {
               <li>• Stay in well-lit, populated areas</li>
               <li>• Keep your phone charged for emergencies</li>
               <li>• The app will alert you about poor network areas</li>
-              <li>• Auto-pause activates after 30 seconds of inactivity</li>
+              <li>• Auto-pause activates when you stop moving and resumes when you set off again</li>
               <li>• Share your route with someone you trust</li>
             </ul>
           </CardContent>
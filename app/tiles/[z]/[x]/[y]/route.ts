@@ -0,0 +1,31 @@
+import { readFile } from "node:fs/promises"
+import path from "node:path"
+
+// Serves XYZ tiles from a local directory laid out as {z}/{x}/{y}.png, standing in for a tile server during
+// development and testing. Point the map at /tiles/{z}/{x}/{y}.png to use it.
+const TILE_DIR = process.env.TILE_DIR ?? path.join(process.cwd(), "tiles")
+
+const CONTENT_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  webp: "image/webp",
+}
+
+const notFound = () => new Response("Tile not found", { status: 404 })
+
+export async function GET(_request: Request, { params }: { params: Promise<{ z: string; x: string; y: string }> }) {
+  const { z, x, y } = await params
+  // Only plain numbers reach the file system
+  const file = /^(\d+)\.(png|jpe?g|webp)$/.exec(y)
+  if (!/^\d+$/.test(z) || !/^\d+$/.test(x) || !file) return notFound()
+
+  try {
+    const tile = await readFile(path.join(TILE_DIR, z, x, y))
+    return new Response(tile, {
+      headers: { "Content-Type": CONTENT_TYPES[file[2]], "Cache-Control": "public, max-age=86400" },
+    })
+  } catch {
+    return notFound()
+  }
+}
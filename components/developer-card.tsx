@@ -0,0 +1,162 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { useFormat } from "@/hooks/use-format"
+import {
+  parseReplayTrack,
+  PLAYBACK_SPEEDS,
+  type LocationSource,
+  type SimulationConfig,
+  type SyntheticRouteOptions,
+} from "@/lib/simulated-location"
+import { IMPORT_ACCEPT } from "@/lib/track-import"
+import { Upload } from "lucide-react"
+
+interface DeveloperCardProps {
+  config: SimulationConfig
+  onChange: (config: SimulationConfig) => void
+  // The source cannot change while a session is recording
+  disabled?: boolean
+}
+
+type SyntheticField = keyof Omit<SyntheticRouteOptions, "center" | "seed">
+
+// Numeric synthetic route settings, labelled with the unit they are entered in
+const SYNTHETIC_FIELDS: { name: SyntheticField; label: string; step: number }[] = [
+  { name: "speed", label: "Speed (km/h)", step: 0.5 },
+  { name: "loopLength", label: "Loop length (m)", step: 100 },
+  { name: "noise", label: "Noise σ (m)", step: 1 },
+  { name: "dropoutRate", label: "Dropouts per fix", step: 0.001 },
+  { name: "dropoutDuration", label: "Dropout length (s)", step: 5 },
+]
+
+export function DeveloperCard({ config, onChange, disabled = false }: DeveloperCardProps) {
+  const format = useFormat()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [replayError, setReplayError] = useState<string | null>(null)
+
+  const update = (changes: Partial<SimulationConfig>) => onChange({ ...config, ...changes })
+
+  const loadReplay = async (file: File | undefined) => {
+    if (!file) return
+    try {
+      const positions = parseReplayTrack(file.name, await file.text())
+      setReplayError(null)
+      update({ source: "replay", replay: { name: file.name, positions } })
+    } catch (error) {
+      setReplayError(error instanceof Error ? error.message : "Unable to read this track.")
+    }
+  }
+
+  return (
+    <Card className="border-dashed">
+      <CardHeader>
+        <CardTitle>🧪 Developer Mode</CardTitle>
+        <CardDescription>Record a session from a simulated location source instead of the device GPS</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <span>Location source:</span>
+          <ToggleGroup
+            type="single"
+            size="sm"
+            variant="outline"
+            value={config.source}
+            disabled={disabled}
+            onValueChange={(value) => value && update({ source: value as LocationSource })}
+          >
+            <ToggleGroupItem value="device">Device GPS</ToggleGroupItem>
+            <ToggleGroupItem value="replay">Replay</ToggleGroupItem>
+            <ToggleGroupItem value="synthetic">Synthetic</ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+
+        {config.source !== "device" && (
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <span>Playback speed:</span>
+            <ToggleGroup
+              type="single"
+              size="sm"
+              variant="outline"
+              value={String(config.playbackSpeed)}
+              disabled={disabled}
+              onValueChange={(value) => value && update({ playbackSpeed: Number(value) })}
+            >
+              {PLAYBACK_SPEEDS.map((speed) => (
+                <ToggleGroupItem key={speed} value={String(speed)}>
+                  {speed}×
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+        )}
+
+        {config.source === "replay" && (
+          <div className="space-y-2">
+            <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+              <span className="text-gray-600">
+                {config.replay
+                  ? `${config.replay.name}: ${config.replay.positions.length} fixes`
+                  : "Pick a GPX, TCX, GeoJSON or JSON track to replay."}
+              </span>
+              <Button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={disabled}
+                variant="outline"
+                size="sm"
+                className="flex items-center gap-2"
+              >
+                <Upload className="h-4 w-4" />
+                Choose Track
+              </Button>
+            </div>
+            {replayError && <p className="text-sm text-red-600">{replayError}</p>}
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={IMPORT_ACCEPT}
+              className="hidden"
+              onChange={(event) => {
+                loadReplay(event.target.files?.[0])
+                event.target.value = ""
+              }}
+            />
+          </div>
+        )}
+
+        {config.source === "synthetic" && (
+          <div className="grid grid-cols-2 gap-3 md:grid-cols-3">
+            {SYNTHETIC_FIELDS.map((field) => (
+              <div key={field.name} className="space-y-1">
+                <Label htmlFor={`synthetic-${field.name}`}>{field.label}</Label>
+                <Input
+                  id={`synthetic-${field.name}`}
+                  type="number"
+                  min={0}
+                  step={field.step}
+                  value={config.synthetic[field.name]}
+                  disabled={disabled}
+                  onChange={(event) => {
+                    const value = event.target.valueAsNumber
+                    if (Number.isFinite(value) && value >= 0) {
+                      update({ synthetic: { ...config.synthetic, [field.name]: value } })
+                    }
+                  }}
+                />
+              </div>
+            ))}
+            <p className="col-span-full text-sm text-gray-600">
+              A {format.distance(config.synthetic.loopLength)} loop at {format.speed(config.synthetic.speed)}, with
+              position noise and random signal dropouts.
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,84 @@
+"use client"
+
+import { useMemo } from "react"
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from "recharts"
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import { useFormat } from "@/hooks/use-format"
+import type { ElevationSample } from "@/lib/elevation"
+
+const chartConfig = {
+  elevation: { label: "Elevation", color: "#8b5cf6" },
+} satisfies ChartConfig
+
+interface ElevationChartProps {
+  samples: ElevationSample[]
+  // Called with the sample under the pointer, or null when it leaves the chart
+  onHover?: (sample: ElevationSample | null) => void
+}
+
+export function ElevationChart({ samples, onHover }: ElevationChartProps) {
+  const format = useFormat()
+  const data = useMemo(
+    () =>
+      samples.map((sample) => ({
+        distance: format.distanceValue(sample.distance),
+        elevation: Math.round(format.lengthValue(sample.elevation)),
+      })),
+    [samples, format],
+  )
+
+  if (samples.length < 2) {
+    return <p className="text-sm text-gray-600">The elevation profile appears once your device reports altitude.</p>
+  }
+
+  return (
+    <ChartContainer config={chartConfig} className="aspect-auto h-48 w-full">
+      <AreaChart
+        data={data}
+        margin={{ left: 0, right: 8, top: 8 }}
+        onMouseMove={(state) => {
+          const index = state.activeTooltipIndex
+          onHover?.(index !== undefined ? (samples[index] ?? null) : null)
+        }}
+        onMouseLeave={() => onHover?.(null)}
+      >
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="distance"
+          type="number"
+          domain={["dataMin", "dataMax"]}
+          tickFormatter={(value: number) => value.toFixed(1)}
+          unit={` ${format.distanceUnit}`}
+          tickLine={false}
+          axisLine={false}
+        />
+        <YAxis
+          dataKey="elevation"
+          domain={["auto", "auto"]}
+          unit={` ${format.lengthUnit}`}
+          width={56}
+          tickLine={false}
+          axisLine={false}
+        />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              labelFormatter={(_, payload) =>
+                payload[0] ? `${(payload[0].payload.distance as number).toFixed(2)} ${format.distanceUnit}` : null
+              }
+              formatter={(value) => `Elevation ${value} ${format.lengthUnit}`}
+            />
+          }
+        />
+        <Area
+          dataKey="elevation"
+          type="monotone"
+          stroke="var(--color-elevation)"
+          fill="var(--color-elevation)"
+          fillOpacity={0.2}
+          isAnimationActive={false}
+        />
+      </AreaChart>
+    </ChartContainer>
+  )
+}
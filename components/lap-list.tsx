@@ -0,0 +1,36 @@
+"use client"
+
+import { useFormat } from "@/hooks/use-format"
+import type { Lap } from "@/lib/types"
+
+interface LapListProps {
+  laps: Lap[]
+  // The lap still in progress, shown after the completed ones
+  current?: Lap | null
+}
+
+export function LapList({ laps, current = null }: LapListProps) {
+  const format = useFormat()
+  const rows = current ? [...laps, current] : laps
+  if (rows.length === 0) return null
+
+  return (
+    <div className="divide-y rounded-lg border text-sm">
+      {rows.map((lap) => (
+        <div
+          key={lap.index}
+          className={`flex flex-wrap items-center justify-between gap-2 px-3 py-2 ${lap === current ? "text-gray-500" : ""}`}
+        >
+          <span className="font-semibold">
+            Lap {lap.index}
+            {lap === current && " (current)"}
+          </span>
+          <span className="font-mono">
+            {format.distance(lap.distance)} • {format.time(lap.time)} • {format.pace(lap.distance, lap.time)} • max{" "}
+            {format.speed(lap.maxSpeed)}
+          </span>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,38 @@
+"use client"
+
+import { useNotificationLog } from "@/hooks/use-notifications"
+import type { NotificationSeverity } from "@/lib/notifications"
+
+const SEVERITY_DOTS: Record<NotificationSeverity, string> = {
+  info: "bg-blue-500",
+  success: "bg-green-500",
+  warning: "bg-orange-500",
+  error: "bg-red-500",
+}
+
+// Everything the session notified about, oldest first, for reviewing after the run
+export function NotificationLog() {
+  const entries = useNotificationLog()
+
+  if (entries.length === 0) {
+    return <p className="text-sm text-gray-600">No notifications during this session.</p>
+  }
+
+  return (
+    <div className="divide-y rounded-lg border text-sm">
+      {entries.map((entry) => (
+        <div key={entry.id} className="flex items-start gap-3 px-3 py-2">
+          <div className={`mt-1.5 h-2 w-2 shrink-0 rounded-full ${SEVERITY_DOTS[entry.severity]}`} />
+          <div className="min-w-0 flex-1">
+            <div className="font-semibold">
+              {entry.title}
+              {entry.count > 1 && <span className="font-normal text-gray-500"> ×{entry.count}</span>}
+            </div>
+            {entry.description && <div className="text-gray-600">{entry.description}</div>}
+          </div>
+          <span className="shrink-0 font-mono text-gray-500">{new Date(entry.firstAt).toLocaleTimeString()}</span>
+        </div>
+      ))}
+    </div>
+  )
+}
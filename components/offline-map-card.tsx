@@ -0,0 +1,188 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { useFormat } from "@/hooks/use-format"
+import { useSettings } from "@/hooks/use-settings"
+import { positionFromGeolocation } from "@/lib/gps-filter"
+import { notify } from "@/lib/notifications"
+import type { LatLng } from "@/lib/projection"
+import {
+  clearTileCache,
+  countCachedTiles,
+  LOCAL_TILE_URL,
+  MAX_PREFETCH_TILES,
+  prefetchTiles,
+  tilesAround,
+} from "@/lib/tiles"
+import { Download, LocateFixed } from "lucide-react"
+
+interface OfflineMapCardProps {
+  // Where the runner is now, if known; the area to save is centered here
+  center: LatLng | null
+}
+
+const AREA_RADII = [1000, 2000, 3000] // m
+// Zoomed out far enough to find the route, in far enough to read the streets
+const MIN_SAVED_ZOOM = 12
+const MAX_SAVED_ZOOM = 17
+
+export function OfflineMapCard({ center }: OfflineMapCardProps) {
+  const format = useFormat()
+  const [settings, updateSettings] = useSettings()
+  const [radius, setRadius] = useState(AREA_RADII[0])
+  const [located, setLocated] = useState<LatLng | null>(null)
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null)
+  const [cachedTiles, setCachedTiles] = useState<number | null>(null)
+
+  const areaCenter = center ?? located
+  const tiles = useMemo(
+    () => (areaCenter ? tilesAround(areaCenter, radius, MIN_SAVED_ZOOM, MAX_SAVED_ZOOM) : []),
+    [areaCenter, radius],
+  )
+
+  const refreshCount = () => {
+    countCachedTiles()
+      .then(setCachedTiles)
+      .catch((error) => console.error("Failed to count offline tiles:", error))
+  }
+
+  useEffect(refreshCount, [])
+
+  // One fix to center the area on, for planning before a session starts
+  const locate = () => {
+    navigator.geolocation.getCurrentPosition(
+      (position) => setLocated(positionFromGeolocation(position)),
+      () => notify({ title: "Could not find your location", severity: "warning" }),
+      { enableHighAccuracy: false, timeout: 20000 },
+    )
+  }
+
+  const saveArea = async () => {
+    setProgress({ done: 0, total: tiles.length })
+    try {
+      const result = await prefetchTiles(settings.tileUrl, tiles, (done, total) => setProgress({ done, total }))
+      notify(
+        result.failed === 0
+          ? { title: "Map saved for offline use", description: `${result.saved} tiles stored.`, severity: "success" }
+          : {
+              title: "Map partly saved",
+              description: `${result.saved} tiles stored, ${result.failed} could not be downloaded.`,
+              severity: "warning",
+            },
+      )
+    } catch (error) {
+      console.error("Failed to save offline map:", error)
+      notify({
+        title: "Could not save the map",
+        description: error instanceof Error ? error.message : undefined,
+        severity: "error",
+      })
+    } finally {
+      setProgress(null)
+      refreshCount()
+    }
+  }
+
+  const clearSaved = () => {
+    clearTileCache()
+      .then(refreshCount)
+      .catch((error) => console.error("Failed to clear offline tiles:", error))
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>🗺️ Map</CardTitle>
+        <CardDescription>Basemap tiles under the route, and an area saved for running offline</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-1">
+          <Label htmlFor="tile-url">Tile URL</Label>
+          <div className="flex gap-2">
+            <Input
+              id="tile-url"
+              placeholder="https://tiles.example.org/{z}/{x}/{y}.png"
+              value={settings.tileUrl}
+              onChange={(event) => updateSettings({ tileUrl: event.target.value.trim() })}
+            />
+            <Button variant="outline" onClick={() => updateSettings({ tileUrl: LOCAL_TILE_URL })}>
+              Local tiles
+            </Button>
+          </div>
+          <p className="text-sm text-gray-600">Leave empty to draw the route on a plain grid.</p>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="tile-attribution">Attribution</Label>
+          <Input
+            id="tile-attribution"
+            placeholder="© Map data contributors"
+            value={settings.tileAttribution}
+            onChange={(event) => updateSettings({ tileAttribution: event.target.value })}
+          />
+        </div>
+
+        {settings.tileUrl && (
+          <div className="space-y-2">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <span>Save area within:</span>
+              <ToggleGroup
+                type="single"
+                size="sm"
+                variant="outline"
+                value={String(radius)}
+                onValueChange={(value) => value && setRadius(Number(value))}
+              >
+                {AREA_RADII.map((meters) => (
+                  <ToggleGroupItem key={meters} value={String(meters)}>
+                    {format.distance(meters)}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            </div>
+            <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-gray-600">
+              <span>
+                {!areaCenter
+                  ? "Find your location to pick the area."
+                  : tiles.length > MAX_PREFETCH_TILES
+                    ? `${tiles.length} tiles is too many; pick a smaller area.`
+                    : `${tiles.length} tiles around ${areaCenter.lat.toFixed(4)}, ${areaCenter.lng.toFixed(4)}`}
+              </span>
+              {!areaCenter ? (
+                <Button variant="outline" size="sm" onClick={locate} className="flex items-center gap-2">
+                  <LocateFixed className="h-4 w-4" />
+                  Locate Me
+                </Button>
+              ) : (
+                <Button
+                  size="sm"
+                  onClick={saveArea}
+                  disabled={progress !== null || tiles.length > MAX_PREFETCH_TILES}
+                  className="flex items-center gap-2"
+                >
+                  <Download className="h-4 w-4" />
+                  {progress ? `Saving ${progress.done}/${progress.total}` : "Save for Offline"}
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {cachedTiles !== null && (
+          <div className="flex items-center justify-between text-sm">
+            <span>Tiles saved on this device: {cachedTiles}</span>
+            {cachedTiles > 0 && (
+              <Button variant="outline" size="sm" onClick={clearSaved} disabled={progress !== null}>
+                Clear
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,58 @@
+"use client"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { useSettings } from "@/hooks/use-settings"
+import type { PrimaryDisplay } from "@/lib/settings"
+import type { UnitSystem } from "@/lib/types"
+
+export function PreferencesCard() {
+  const [settings, updateSettings] = useSettings()
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>⚙️ Preferences</CardTitle>
+        <CardDescription>Saved on this device</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex items-center justify-between">
+          <span>Primary display:</span>
+          <ToggleGroup
+            type="single"
+            size="sm"
+            variant="outline"
+            value={settings.primaryDisplay}
+            onValueChange={(value) => value && updateSettings({ primaryDisplay: value as PrimaryDisplay })}
+          >
+            <ToggleGroupItem value="pace">Pace</ToggleGroupItem>
+            <ToggleGroupItem value="speed">Speed</ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+        <div className="flex items-center justify-between">
+          <span>Units:</span>
+          <ToggleGroup
+            type="single"
+            size="sm"
+            variant="outline"
+            value={settings.units}
+            onValueChange={(value) => value && updateSettings({ units: value as UnitSystem })}
+          >
+            <ToggleGroupItem value="metric">km, m</ToggleGroupItem>
+            <ToggleGroupItem value="imperial">mi, ft</ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+        <div className="flex items-center justify-between">
+          <Label htmlFor="developer-mode">Developer mode:</Label>
+          <Switch
+            id="developer-mode"
+            checked={settings.developerMode}
+            onCheckedChange={(developerMode) => updateSettings({ developerMode })}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,137 @@
+"use client"
+
+import { useEffect, useMemo } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useFormat } from "@/hooks/use-format"
+import { useProfile } from "@/hooks/use-profile"
+import { heightUnit, toDisplayHeight, toDisplayWeight, weightUnit } from "@/lib/format"
+import { notify } from "@/lib/notifications"
+import { profileFormSchema, profileFromForm, type Profile, type ProfileFormValues } from "@/lib/profile"
+import type { UnitSystem } from "@/lib/types"
+
+const toFormValues = (profile: Profile, units: UnitSystem): ProfileFormValues => ({
+  ...profile,
+  weight: toDisplayWeight(profile.weight, units),
+  height: toDisplayHeight(profile.height, units),
+})
+
+const NUMBER_FIELDS = [
+  { name: "age", label: "Age" },
+  { name: "restingHeartRate", label: "Resting heart rate (bpm)" },
+  { name: "maxHeartRate", label: "Max heart rate (bpm)" },
+] as const
+
+export function ProfileCard() {
+  const [profile, updateProfile] = useProfile()
+  const { units } = useFormat()
+  const schema = useMemo(() => profileFormSchema(units), [units])
+
+  const form = useForm<ProfileFormValues>({
+    resolver: zodResolver(schema),
+    defaultValues: toFormValues(profile, units),
+  })
+
+  // Pick up changes from other tabs and re-express the values when the units preference changes
+  useEffect(() => {
+    form.reset(toFormValues(profile, units))
+  }, [form, profile, units])
+
+  const onSubmit = (values: ProfileFormValues) => {
+    updateProfile(profileFromForm(values, units))
+    notify({
+      title: "Profile saved",
+      description: "Calories are now estimated from your profile.",
+      severity: "success",
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>🧍 Profile</CardTitle>
+        <CardDescription>Used for calorie estimates • saved on this device</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="weight"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Weight ({weightUnit(units)})</FormLabel>
+                    <FormControl>
+                      <Input type="number" inputMode="decimal" step="any" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="height"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Height ({heightUnit(units)})</FormLabel>
+                    <FormControl>
+                      <Input type="number" inputMode="decimal" step="any" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="sex"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Sex</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="female">Female</SelectItem>
+                        <SelectItem value="male">Male</SelectItem>
+                        <SelectItem value="unspecified">Prefer not to say</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {NUMBER_FIELDS.map(({ name, label }) => (
+                <FormField
+                  key={name}
+                  control={form.control}
+                  name={name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{label}</FormLabel>
+                      <FormControl>
+                        <Input type="number" inputMode="numeric" step={1} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </div>
+            <Button type="submit" disabled={!form.formState.isDirty}>
+              Save profile
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,284 @@
+"use client"
+
+import { useEffect, useMemo, useRef, useState, type PointerEvent } from "react"
+import { RouteLegend } from "@/components/route-legend"
+import { Button } from "@/components/ui/button"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { useFormat } from "@/hooks/use-format"
+import { useSettings } from "@/hooks/use-settings"
+import { clampZoom, MAX_ZOOM, panBy, viewContains, zoomAround, type MapView, type Point } from "@/lib/projection"
+import { ROUTE_COLORINGS, type RouteColoring, type RouteColorLegend } from "@/lib/route-colors"
+import { createRouteRenderClient, type RouteRenderClient } from "@/lib/route-render-client"
+import { fitRoute, routePoints, type LapMarker } from "@/lib/route-renderer"
+import type { Position } from "@/lib/types"
+import { cn } from "@/lib/utils"
+import { LocateFixed, Maximize } from "lucide-react"
+
+interface RouteCanvasProps {
+  positions: Position[]
+  currentPosition?: Position | null
+  distance: number
+  lapMarkers?: LapMarker[]
+  highlight?: LapMarker | null
+  className?: string
+}
+
+// Wheel travel (in pixels) that zooms by one level
+const WHEEL_PIXELS_PER_ZOOM = 300
+const WHEEL_LINE_HEIGHT = 16
+// How close to the edge the route may get before the whole-route view is fitted again
+const REFIT_MARGIN = 10 // px
+
+// Shared so a missing prop does not look like a change on every render
+const NO_LAP_MARKERS: LapMarker[] = []
+
+const midpoint = (a: Point, b: Point) => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 })
+const spread = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y)
+
+export function RouteCanvas({
+  positions,
+  currentPosition = null,
+  distance,
+  lapMarkers = NO_LAP_MARKERS,
+  highlight = null,
+  className,
+}: RouteCanvasProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const rendererRef = useRef<RouteRenderClient | null>(null)
+  const disposeRef = useRef<ReturnType<typeof setTimeout>>(undefined)
+  const { units } = useFormat()
+  const [{ tileUrl: tileTemplate, tileAttribution, routeColoring }, updateSettings] = useSettings()
+  const [size, setSize] = useState({ width: 800, height: 400, pixelRatio: 1 })
+  // Null shows the whole route as it grows; set once the map is panned or zoomed
+  const [manualView, setManualView] = useState<MapView | null>(null)
+  const [follow, setFollow] = useState(false)
+  // The color scale the renderer last drew with
+  const [legend, setLegend] = useState<RouteColorLegend | null>(null)
+  // Pointers on the canvas, for dragging with one and pinching with two
+  const pointersRef = useRef(new Map<number, Point>())
+
+  const empty = positions.length === 0 && !currentPosition
+  // The whole-route view is kept while the route still fits in it, so new fixes only add to the drawn route
+  // rather than redrawing it at a new scale. The fixes already inside it are not checked again.
+  const fittedRef = useRef<{ view: MapView | null; size: typeof size; positions: Position[] } | null>(null)
+  const fitted = useMemo(() => {
+    const previous = fittedRef.current
+    const checked = previous?.positions ?? []
+    const extended =
+      positions.length >= checked.length &&
+      (checked.length === 0 || positions[checked.length - 1] === checked[checked.length - 1])
+    const added = positions.slice(checked.length)
+    if (currentPosition) added.push(currentPosition)
+    return previous?.view &&
+      previous.size === size &&
+      extended &&
+      !empty &&
+      viewContains(previous.view, added, size.width, size.height, REFIT_MARGIN)
+      ? previous.view
+      : fitRoute(routePoints(positions, currentPosition), size.width, size.height)
+  }, [positions, currentPosition, size, empty])
+  const view: MapView | null =
+    follow && currentPosition
+      ? { center: currentPosition, zoom: (manualView ?? fitted)?.zoom ?? MAX_ZOOM }
+      : (manualView ?? fitted)
+
+  // The pointer and wheel handlers read the latest view, which can change several times between renders
+  const latestRef = useRef({ view, size, follow })
+  useEffect(() => {
+    latestRef.current = { view, size, follow }
+    fittedRef.current = { view: fitted, size, positions }
+  })
+
+  const changeView = (next: MapView) => {
+    latestRef.current = { ...latestRef.current, view: next }
+    setManualView(next)
+  }
+
+  // While following, zooming keeps the current position centered
+  const zoomBy = (delta: number, anchor: Point, pan: Point = { x: 0, y: 0 }) => {
+    const { view, size, follow } = latestRef.current
+    if (!view) return
+    changeView(
+      follow
+        ? { ...view, zoom: clampZoom(view.zoom + delta) }
+        : panBy(zoomAround(view, delta, anchor, size.width, size.height), pan.x, pan.y),
+    )
+  }
+
+  // The renderer takes over the canvas for good, so StrictMode's quick unmount and remount must not dispose it
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+    clearTimeout(disposeRef.current)
+    rendererRef.current ??= createRouteRenderClient(canvas, setLegend)
+    const renderer = rendererRef.current
+    return () => {
+      disposeRef.current = setTimeout(() => {
+        renderer.dispose()
+        rendererRef.current = null
+      })
+    }
+  }, [])
+
+  // Keep the drawing buffer the size the canvas is shown at, so the map is not stretched
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect
+      if (width > 0 && height > 0) setSize({ width, height, pixelRatio: window.devicePixelRatio || 1 })
+    })
+    observer.observe(canvas)
+    return () => observer.disconnect()
+  }, [])
+
+  // Wheel zoom; registered by hand because React's wheel listener is passive and cannot stop the page scrolling
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+    const onWheel = (event: WheelEvent) => {
+      event.preventDefault()
+      const pixels = event.deltaMode === WheelEvent.DOM_DELTA_LINE ? event.deltaY * WHEEL_LINE_HEIGHT : event.deltaY
+      zoomBy(-pixels / WHEEL_PIXELS_PER_ZOOM, { x: event.offsetX, y: event.offsetY })
+    }
+    canvas.addEventListener("wheel", onWheel, { passive: false })
+    return () => canvas.removeEventListener("wheel", onWheel)
+    // zoomBy only reads refs
+  }, [])
+
+  // A new session starts from the whole route again
+  useEffect(() => {
+    if (empty) {
+      setManualView(null)
+      setFollow(false)
+    }
+  }, [empty])
+
+  const pointerDown = (event: PointerEvent<HTMLCanvasElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId)
+    pointersRef.current.set(event.pointerId, { x: event.nativeEvent.offsetX, y: event.nativeEvent.offsetY })
+  }
+
+  // One pointer pans the map; two pinch to zoom around the point between them and pan as they move together
+  const pointerMove = (event: PointerEvent<HTMLCanvasElement>) => {
+    const pointers = pointersRef.current
+    const previous = pointers.get(event.pointerId)
+    if (!previous) return
+    const current = { x: event.nativeEvent.offsetX, y: event.nativeEvent.offsetY }
+    const [other] = [...pointers].filter(([id]) => id !== event.pointerId).map(([, point]) => point)
+    pointers.set(event.pointerId, current)
+
+    if (!other) {
+      const { view } = latestRef.current
+      if (!view) return
+      setFollow(false)
+      changeView(panBy(view, current.x - previous.x, current.y - previous.y))
+      return
+    }
+
+    const before = midpoint(previous, other)
+    const after = midpoint(current, other)
+    const ratio = spread(current, other) / Math.max(1, spread(previous, other))
+    zoomBy(Math.log2(ratio), before, { x: after.x - before.x, y: after.y - before.y })
+  }
+
+  const pointerUp = (event: PointerEvent<HTMLCanvasElement>) => {
+    pointersRef.current.delete(event.pointerId)
+  }
+
+  // The renderer draws at most once a frame, fetching the basemap tiles it needs itself
+  useEffect(() => {
+    rendererRef.current?.setTrack(positions)
+  }, [positions])
+
+  useEffect(() => {
+    rendererRef.current?.setScene({
+      currentPosition,
+      distance,
+      lapMarkers,
+      highlight,
+      units,
+      view,
+      ...size,
+      tileUrl: tileTemplate,
+      tileAttribution,
+      coloring: routeColoring,
+    })
+  }, [
+    currentPosition,
+    distance,
+    lapMarkers,
+    highlight,
+    units,
+    view,
+    size,
+    tileTemplate,
+    tileAttribution,
+    routeColoring,
+  ])
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <canvas
+          ref={canvasRef}
+          onPointerDown={pointerDown}
+          onPointerMove={pointerMove}
+          onPointerUp={pointerUp}
+          onPointerCancel={pointerUp}
+          className={cn(
+            "w-full h-64 md:h-96 border rounded-lg bg-gray-50 touch-none cursor-grab active:cursor-grabbing",
+            className,
+          )}
+        />
+        <div className="absolute top-2 right-2 flex gap-2">
+          {currentPosition && (
+            <Button
+              size="icon"
+              variant={follow ? "default" : "outline"}
+              aria-pressed={follow}
+              title="Follow me"
+              onClick={() => setFollow((prev) => !prev)}
+            >
+              <LocateFixed className="h-4 w-4" />
+            </Button>
+          )}
+          {(manualView || follow) && (
+            <Button
+              size="icon"
+              variant="outline"
+              title="Show whole route"
+              onClick={() => {
+                setManualView(null)
+                setFollow(false)
+              }}
+            >
+              <Maximize className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span>Color by:</span>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          variant="outline"
+          value={routeColoring}
+          onValueChange={(value) => value && updateSettings({ routeColoring: value as RouteColoring })}
+        >
+          {(Object.keys(ROUTE_COLORINGS) as RouteColoring[]).map((coloring) => (
+            <ToggleGroupItem key={coloring} value={coloring}>
+              {ROUTE_COLORINGS[coloring].label}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+        {legend?.coloring === routeColoring && (
+          <div className="min-w-48 flex-1">
+            <RouteLegend legend={legend} />
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,48 @@
+"use client"
+
+import { useFormat } from "@/hooks/use-format"
+import { useSettings } from "@/hooks/use-settings"
+import { gradientColor, ROUTE_COLORINGS, type RouteColorLegend } from "@/lib/route-colors"
+
+interface RouteLegendProps {
+  legend: RouteColorLegend
+}
+
+// The color scale of a heat-colored route, labelled at both ends
+export function RouteLegend({ legend }: RouteLegendProps) {
+  const format = useFormat()
+  const [settings] = useSettings()
+  const { coloring, scale } = legend
+
+  if (!scale) {
+    return (
+      <p className="text-sm text-gray-600">
+        Not enough data yet to color by {ROUTE_COLORINGS[coloring].label.toLowerCase()}.
+      </p>
+    )
+  }
+
+  const label = (value: number) => {
+    switch (coloring) {
+      case "pace":
+        return settings.primaryDisplay === "pace" && value > 0 ? format.paceValue(3600 / value) : format.speed(value)
+      case "grade":
+        return `${value > 0 ? "+" : ""}${value.toFixed(0)}%`
+      case "accuracy":
+        return `±${format.length(value)}`
+    }
+  }
+
+  const gradient = ROUTE_COLORINGS[coloring].stops.map((_, i, stops) => gradientColor(coloring, i / (stops.length - 1)))
+
+  return (
+    <div className="flex items-center gap-2 text-sm text-gray-600">
+      <span className="font-mono">{label(scale.min)}</span>
+      <div
+        className="h-2 flex-1 rounded-full"
+        style={{ background: `linear-gradient(to right, ${gradient.join(", ")})` }}
+      />
+      <span className="font-mono">{label(scale.max)}</span>
+    </div>
+  )
+}
@@ -0,0 +1,68 @@
+"use client"
+
+import { useFormat } from "@/hooks/use-format"
+import type { JoggingSession, StateTransition } from "@/lib/types"
+
+type TimelineSource = Pick<JoggingSession, "startTime" | "transitions" | "signalLost">
+
+interface TimelineEvent {
+  timestamp: number
+  label: string
+  // Seconds the event lasted, for periods such as signal loss
+  duration?: number
+  warning?: boolean
+}
+
+function transitionLabel(transition: StateTransition, index: number): string {
+  switch (transition.state) {
+    case "running":
+      if (index === 0) return "Started"
+      return transition.reason === "auto" ? "Auto-resumed" : "Resumed"
+    case "paused":
+      if (transition.reason === "auto") return "Auto-paused"
+      return transition.reason === "interrupted" ? "Recording interrupted" : "Paused"
+    case "stopped":
+      return "Stopped"
+    default:
+      return transition.state
+  }
+}
+
+// State changes and signal-lost periods in time order
+function timelineEvents(session: TimelineSource): TimelineEvent[] {
+  const events: TimelineEvent[] = session.transitions.map((transition, index) => ({
+    timestamp: transition.timestamp,
+    label: transitionLabel(transition, index),
+  }))
+  for (const period of session.signalLost ?? []) {
+    events.push({
+      timestamp: period.start,
+      label: "GPS signal lost",
+      duration: period.end !== undefined ? (period.end - period.start) / 1000 : undefined,
+      warning: true,
+    })
+  }
+  return events.sort((a, b) => a.timestamp - b.timestamp)
+}
+
+export function SessionTimeline({ session }: { session: TimelineSource }) {
+  const format = useFormat()
+  const events = timelineEvents(session)
+
+  return (
+    <div className="divide-y rounded-lg border text-sm">
+      {events.map((event, index) => (
+        <div key={index} className="flex items-center justify-between gap-2 px-3 py-2">
+          <span className={event.warning ? "font-semibold text-orange-700" : "font-semibold"}>
+            {event.label}
+            {event.duration !== undefined && ` for ${format.time(event.duration)}`}
+          </span>
+          <span className="font-mono text-gray-600">
+            +{format.time((event.timestamp - session.startTime) / 1000)} •{" "}
+            {new Date(event.timestamp).toLocaleTimeString()}
+          </span>
+        </div>
+      ))}
+    </div>
+  )
+}
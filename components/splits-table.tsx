@@ -0,0 +1,48 @@
+"use client"
+
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useFormat } from "@/hooks/use-format"
+import type { Split } from "@/lib/types"
+import { ArrowDown, ArrowUp, Minus } from "lucide-react"
+
+interface SplitsTableProps {
+  splits: Split[]
+  unitLabel: string
+}
+
+export function SplitsTable({ splits, unitLabel }: SplitsTableProps) {
+  const format = useFormat()
+
+  if (splits.length === 0) {
+    return <p className="text-sm text-gray-600">Splits appear after your first {unitLabel}.</p>
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{unitLabel.toUpperCase()}</TableHead>
+          <TableHead>Time</TableHead>
+          <TableHead>Pace</TableHead>
+          <TableHead>Elev.</TableHead>
+          <TableHead className="text-right">vs. prev</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody className="font-mono">
+        {splits.map((split) => (
+          <TableRow key={split.index} className={split.partial ? "text-gray-500" : undefined}>
+            <TableCell>{split.partial ? format.distance(split.distance) : split.index}</TableCell>
+            <TableCell>{format.time(split.time)}</TableCell>
+            <TableCell>{format.pace(split.distance, split.time)}</TableCell>
+            <TableCell>{format.elevationChange(split.elevationChange)}</TableCell>
+            <TableCell className="text-right">
+              {split.comparison === "faster" && <ArrowUp className="inline h-4 w-4 text-green-600" aria-label="Faster" />}
+              {split.comparison === "slower" && <ArrowDown className="inline h-4 w-4 text-red-600" aria-label="Slower" />}
+              {split.comparison === "even" && <Minus className="inline h-4 w-4 text-gray-400" aria-label="Even" />}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
+}
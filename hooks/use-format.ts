@@ -0,0 +1,12 @@
+"use client"
+
+import * as React from "react"
+
+import { useSettings } from "@/hooks/use-settings"
+import { createFormatter } from "@/lib/format"
+
+// Formatting helpers bound to the user's unit preference
+export function useFormat() {
+  const [settings] = useSettings()
+  return React.useMemo(() => createFormatter(settings.units), [settings.units])
+}
@@ -0,0 +1,11 @@
+"use client"
+
+import * as React from "react"
+
+import { getNotificationLog, subscribeNotificationLog, type NotificationEntry } from "@/lib/notifications"
+
+const EMPTY_LOG: NotificationEntry[] = []
+
+export function useNotificationLog() {
+  return React.useSyncExternalStore(subscribeNotificationLog, getNotificationLog, () => EMPTY_LOG)
+}
@@ -0,0 +1,10 @@
+"use client"
+
+import * as React from "react"
+
+import { DEFAULT_PROFILE, getProfile, subscribeProfile, updateProfile } from "@/lib/profile"
+
+export function useProfile() {
+  const profile = React.useSyncExternalStore(subscribeProfile, getProfile, () => DEFAULT_PROFILE)
+  return [profile, updateProfile] as const
+}
@@ -0,0 +1,10 @@
+"use client"
+
+import * as React from "react"
+
+import { DEFAULT_SETTINGS, getSettings, subscribeSettings, updateSettings } from "@/lib/settings"
+
+export function useSettings() {
+  const settings = React.useSyncExternalStore(subscribeSettings, getSettings, () => DEFAULT_SETTINGS)
+  return [settings, updateSettings] as const
+}
@@ -191,4 +191,9 @@ function useToast() {
   }
 }
 
-export { useToast, toast }
+// Whether a toast is still on screen: neither dismissed nor pushed out by newer ones past TOAST_LIMIT
+function isToastVisible(toastId: string) {
+  return memoryState.toasts.some((t) => t.id === toastId && t.open !== false)
+}
+
+export { useToast, toast, isToastVisible }
@@ -0,0 +1,87 @@
+import type { PrimaryDisplay } from "@/lib/settings"
+import type { ActivityType } from "@/lib/types"
+
+// Everything that differs between activities; MET values live in lib/calories
+export interface ActivityProfile {
+  label: string
+  icon: string
+  // Fastest plausible speed (km/h); faster jumps between fixes are GPS outliers
+  maxSpeed: number
+  // Auto-pause thresholds (km/h)
+  pauseSpeed: number
+  resumeSpeed: number
+  // What the control panel leads with when the activity is picked
+  primaryDisplay: PrimaryDisplay
+  // Sport names used by GPX <type> and the TCX Sport attribute (Running, Biking or Other)
+  gpxType: string
+  tcxSport: "Running" | "Biking" | "Other"
+}
+
+export const ACTIVITIES: Record<ActivityType, ActivityProfile> = {
+  walk: {
+    label: "Walk",
+    icon: "🚶",
+    maxSpeed: 15,
+    pauseSpeed: 1,
+    resumeSpeed: 2,
+    primaryDisplay: "pace",
+    gpxType: "walking",
+    tcxSport: "Other",
+  },
+  jog: {
+    label: "Jog",
+    icon: "🏃",
+    maxSpeed: 30,
+    pauseSpeed: 3,
+    resumeSpeed: 5,
+    primaryDisplay: "pace",
+    gpxType: "running",
+    tcxSport: "Running",
+  },
+  run: {
+    label: "Run",
+    icon: "⚡",
+    maxSpeed: 40,
+    pauseSpeed: 4,
+    resumeSpeed: 6,
+    primaryDisplay: "pace",
+    gpxType: "running",
+    tcxSport: "Running",
+  },
+  hike: {
+    label: "Hike",
+    icon: "🥾",
+    maxSpeed: 15,
+    pauseSpeed: 1,
+    resumeSpeed: 2,
+    primaryDisplay: "pace",
+    gpxType: "hiking",
+    tcxSport: "Other",
+  },
+  cycle: {
+    label: "Cycle",
+    icon: "🚴",
+    maxSpeed: 80,
+    pauseSpeed: 5,
+    resumeSpeed: 8,
+    primaryDisplay: "speed",
+    gpxType: "cycling",
+    tcxSport: "Biking",
+  },
+}
+
+export const ACTIVITY_TYPES = Object.keys(ACTIVITIES) as ActivityType[]
+
+export const DEFAULT_ACTIVITY: ActivityType = "jog"
+
+export const sessionActivity = (session: { activity?: ActivityType }) => session.activity ?? DEFAULT_ACTIVITY
+
+// Map a sport name from an imported GPX <type> or TCX Sport attribute back to an activity
+export function activityFromSport(sport: string | null | undefined): ActivityType {
+  const name = sport?.trim().toLowerCase() ?? ""
+  if (/bik|cycl|ride/.test(name)) return "cycle"
+  if (/hik/.test(name)) return "hike"
+  if (/walk/.test(name)) return "walk"
+  if (/run/.test(name)) return "run"
+  return DEFAULT_ACTIVITY
+}
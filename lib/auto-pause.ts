@@ -0,0 +1,72 @@
+import { segmentSpeed } from "@/lib/metrics"
+import type { Position } from "@/lib/types"
+
+export interface AutoPauseConfig {
+  enabled: boolean
+  // Pause once the measured speed stays below this (km/h) for `pauseAfter` seconds
+  pauseSpeed: number
+  pauseAfter: number
+  // Resume once the speed stays above this (km/h) for `resumeAfter` seconds
+  resumeSpeed: number
+  resumeAfter: number
+}
+
+export const DEFAULT_AUTO_PAUSE: AutoPauseConfig = {
+  enabled: true,
+  pauseSpeed: 3,
+  pauseAfter: 10,
+  resumeSpeed: 5,
+  resumeAfter: 3,
+}
+
+export const AUTO_PAUSE_SPEEDS = [1, 2, 3, 4, 5, 6, 8]
+
+// When the speed first crossed each threshold; null while it is on the other side
+export interface AutoPauseDetector {
+  slowSince: number | null
+  fastSince: number | null
+  lastFixTime: number | null
+}
+
+export type AutoPauseAction = "pause" | "resume" | null
+
+export const IDLE_DETECTOR: AutoPauseDetector = { slowSince: null, fastSince: null, lastFixTime: null }
+
+// Speed in km/h for a fix, preferring the receiver's own Doppler speed over the distance between fixes
+export function measuredSpeed(previous: Position | null, fix: Position): number | null {
+  if (fix.speed !== undefined) return fix.speed * 3.6
+  return previous ? segmentSpeed(previous, fix) : null
+}
+
+// Feed a new speed sample; `autoPaused` says whether the session is currently paused by this detector
+export function updateAutoPause(
+  detector: AutoPauseDetector,
+  speed: number | null,
+  timestamp: number,
+  autoPaused: boolean,
+  config: AutoPauseConfig,
+): { detector: AutoPauseDetector; action: AutoPauseAction } {
+  if (!config.enabled || speed === null) {
+    return { detector: { ...detector, lastFixTime: timestamp }, action: null }
+  }
+
+  const slowSince = speed < config.pauseSpeed ? (detector.slowSince ?? timestamp) : null
+  const fastSince = speed >= config.resumeSpeed ? (detector.fastSince ?? timestamp) : null
+  const next = { slowSince, fastSince, lastFixTime: timestamp }
+
+  if (autoPaused && fastSince !== null && timestamp - fastSince >= config.resumeAfter * 1000) {
+    return { detector: { ...next, fastSince: null }, action: "resume" }
+  }
+  if (!autoPaused && slowSince !== null && timestamp - slowSince >= config.pauseAfter * 1000) {
+    return { detector: { ...next, slowSince: null }, action: "pause" }
+  }
+  return { detector: next, action: null }
+}
+
+// Periodic check so a device that stops reporting fixes while standing still still pauses
+export function shouldPauseOnTick(detector: AutoPauseDetector, now: number, config: AutoPauseConfig): boolean {
+  if (!config.enabled) return false
+  const limit = config.pauseAfter * 1000
+  if (detector.slowSince !== null && now - detector.slowSince >= limit) return true
+  return detector.lastFixTime !== null && now - detector.lastFixTime >= limit
+}
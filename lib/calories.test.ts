@@ -0,0 +1,153 @@
+import { describe, expect, it } from "vitest"
+import {
+  activityMet,
+  caloriesFor,
+  CYCLING_METS,
+  gradeAdjustedMet,
+  HIKING_METS,
+  metForSpeed,
+  RUNNING_METS,
+  segmentGrade,
+  WALKING_METS,
+} from "@/lib/calories"
+
+const KMH_PER_MPH = 1.609344
+
+// [Compendium code, speed in mph, MET]
+const WALKING: [string, number, number][] = [
+  ["17152", 2.0, 2.8],
+  ["17170", 2.5, 3.0],
+  ["17190", 2.8, 3.5],
+  ["17200", 3.5, 4.3],
+  ["17220", 4.0, 5.0],
+  ["17230", 4.5, 7.0],
+  ["17231", 5.0, 8.3],
+]
+
+const RUNNING: [string, number, number][] = [
+  ["12030", 5.0, 8.3],
+  ["12040", 5.2, 9.0],
+  ["12050", 6.0, 9.8],
+  ["12060", 6.7, 10.5],
+  ["12070", 7.0, 11.0],
+  ["12080", 7.5, 11.5],
+  ["12090", 8.0, 11.8],
+  ["12100", 8.6, 12.3],
+  ["12110", 9.0, 12.8],
+  ["12120", 10.0, 14.5],
+  ["12130", 11.0, 16.0],
+  ["12132", 12.0, 19.0],
+  ["12134", 13.0, 19.8],
+  ["12135", 14.0, 23.0],
+]
+
+const CYCLING: [string, number, number][] = [
+  ["01020", 10.0, 6.8],
+  ["01030", 12.0, 8.0],
+  ["01040", 14.0, 10.0],
+  ["01050", 16.0, 12.0],
+  ["01060", 20.0, 15.8],
+]
+
+// The band for a published speed starts at that speed rounded to 0.1 km/h
+const bandEdge = (mph: number) => Math.round(mph * KMH_PER_MPH * 10) / 10
+
+describe("metForSpeed", () => {
+  it.each(WALKING)("walking code %s: %f mph is %f MET", (_code, mph, met) => {
+    expect(metForSpeed(bandEdge(mph), WALKING_METS)).toBe(met)
+  })
+
+  it.each(RUNNING)("running code %s: %f mph is %f MET", (_code, mph, met) => {
+    expect(metForSpeed(bandEdge(mph), RUNNING_METS)).toBe(met)
+  })
+
+  it.each(CYCLING)("cycling code %s: %f mph is %f MET", (_code, mph, met) => {
+    expect(metForSpeed(bandEdge(mph), CYCLING_METS)).toBe(met)
+  })
+
+  it("keeps the lower band until a band's speed is reached", () => {
+    expect(metForSpeed(9.69, RUNNING_METS)).toBe(9.0)
+    expect(metForSpeed(9.7, RUNNING_METS)).toBe(9.8)
+    expect(metForSpeed(16.09, CYCLING_METS)).toBe(4.0)
+    expect(metForSpeed(16.1, CYCLING_METS)).toBe(6.8)
+  })
+
+  it("scores standing still as resting", () => {
+    for (const bands of [WALKING_METS, RUNNING_METS, HIKING_METS, CYCLING_METS]) {
+      expect(metForSpeed(0, bands)).toBe(1.3)
+      expect(metForSpeed(1.59, bands)).toBe(1.3)
+    }
+  })
+
+  it("stays in the top band beyond the fastest published speed", () => {
+    expect(metForSpeed(30, RUNNING_METS)).toBe(23.0)
+    expect(metForSpeed(60, CYCLING_METS)).toBe(15.8)
+  })
+})
+
+describe("activityMet", () => {
+  it("scores a jog slowed below 6.4 km/h as walking", () => {
+    expect(activityMet("jog", 6.39)).toBe(4.3)
+    expect(activityMet("jog", 6.4)).toBe(6.0)
+    expect(activityMet("run", 6.39)).toBe(4.3)
+  })
+
+  it("uses the walking table for walks at any speed", () => {
+    expect(activityMet("walk", 6.4)).toBe(5.0)
+    expect(activityMet("walk", 8.0)).toBe(8.3)
+  })
+
+  it("uses code 17082 for a hike at a normal pace and 17080 cross country", () => {
+    expect(activityMet("hike", 3.9)).toBe(5.3)
+    expect(activityMet("hike", 4.0)).toBe(6.0)
+  })
+
+  it("uses code 01010 for leisure cycling and ignores the grade", () => {
+    expect(activityMet("cycle", 12)).toBe(4.0)
+    expect(activityMet("cycle", 12, 0.1)).toBe(4.0)
+  })
+
+  it("raises on-foot MET uphill", () => {
+    expect(activityMet("jog", 10, 0.1)).toBeCloseTo(gradeAdjustedMet(9.8, 10, 0.1, true), 10)
+    expect(activityMet("walk", 5, 0.05)).toBeCloseTo(gradeAdjustedMet(3.5, 5, 0.05, false), 10)
+    expect(activityMet("hike", 5, 0.05)).toBeCloseTo(gradeAdjustedMet(6.0, 5, 0.05, false), 10)
+  })
+})
+
+describe("gradeAdjustedMet", () => {
+  it("leaves level and downhill ground unchanged", () => {
+    expect(gradeAdjustedMet(9.8, 10, 0, true)).toBe(9.8)
+    expect(gradeAdjustedMet(9.8, 10, -0.1, true)).toBe(9.8)
+  })
+
+  it("follows the ACSM running equation uphill", () => {
+    // 10 km/h is 166.7 m/min: (3.5 + 0.2·166.7 + 0.9·166.7·0.1) / (3.5 + 0.2·166.7)
+    expect(gradeAdjustedMet(10, 10, 0.1, true)).toBeCloseTo(10 * (51.8333 / 36.8333), 3)
+  })
+
+  it("follows the ACSM walking equation uphill", () => {
+    // 5 km/h is 83.3 m/min: (3.5 + 0.1·83.3 + 1.8·83.3·0.05) / (3.5 + 0.1·83.3)
+    expect(gradeAdjustedMet(4, 5, 0.05, false)).toBeCloseTo(4 * (19.3333 / 11.8333), 3)
+  })
+})
+
+describe("segmentGrade", () => {
+  it("is rise over run, capped at 25%", () => {
+    expect(segmentGrade(2, 20)).toBe(0.1)
+    expect(segmentGrade(20, 20)).toBe(0.25)
+    expect(segmentGrade(-20, 20)).toBe(-0.25)
+  })
+
+  it("is flat without altitude or over too short a stretch", () => {
+    expect(segmentGrade(null, 50)).toBe(0)
+    expect(segmentGrade(1, 9)).toBe(0)
+  })
+})
+
+describe("caloriesFor", () => {
+  it("is MET × weight × hours", () => {
+    expect(caloriesFor(10, 70, 3600)).toBe(700)
+    expect(caloriesFor(8, 60, 1800)).toBe(240)
+    expect(caloriesFor(9.8, 80, 0)).toBe(0)
+  })
+})
@@ -0,0 +1,122 @@
+import type { ActivityType } from "@/lib/types"
+
+// MET values by speed band from the Compendium of Physical Activities (Ainsworth et al., 2011).
+// Each band applies from its speed (km/h) up to the next band's speed.
+export interface MetBand {
+  speed: number
+  met: number
+}
+
+// Codes 17151–17231: walking on firm, level ground
+export const WALKING_METS: MetBand[] = [
+  { speed: 0, met: 1.3 }, // standing quietly
+  { speed: 1.6, met: 2.0 }, // < 2.0 mph, strolling
+  { speed: 3.2, met: 2.8 }, // 2.0 mph
+  { speed: 4.0, met: 3.0 }, // 2.5 mph
+  { speed: 4.5, met: 3.5 }, // 2.8–3.2 mph
+  { speed: 5.6, met: 4.3 }, // 3.5 mph
+  { speed: 6.4, met: 5.0 }, // 4.0 mph
+  { speed: 7.2, met: 7.0 }, // 4.5 mph
+  { speed: 8.0, met: 8.3 }, // 5.0 mph
+]
+
+// Codes 12029–12135: running
+export const RUNNING_METS: MetBand[] = [
+  { speed: 0, met: 1.3 },
+  { speed: 1.6, met: 6.0 }, // jogging below 4 mph is still scored as the slowest running band
+  { speed: 8.0, met: 8.3 }, // 5 mph
+  { speed: 8.4, met: 9.0 }, // 5.2 mph
+  { speed: 9.7, met: 9.8 }, // 6 mph
+  { speed: 10.8, met: 10.5 }, // 6.7 mph
+  { speed: 11.3, met: 11.0 }, // 7 mph
+  { speed: 12.1, met: 11.5 }, // 7.5 mph
+  { speed: 12.9, met: 11.8 }, // 8 mph
+  { speed: 13.8, met: 12.3 }, // 8.6 mph
+  { speed: 14.5, met: 12.8 }, // 9 mph
+  { speed: 16.1, met: 14.5 }, // 10 mph
+  { speed: 17.7, met: 16.0 }, // 11 mph
+  { speed: 19.3, met: 19.0 }, // 12 mph
+  { speed: 20.9, met: 19.8 }, // 13 mph
+  { speed: 22.5, met: 23.0 }, // 14 mph
+]
+
+// Codes 17080–17082: hiking on trails and hillsides
+export const HIKING_METS: MetBand[] = [
+  { speed: 0, met: 1.3 },
+  { speed: 1.6, met: 5.3 }, // hiking at a normal pace through fields and hillsides
+  { speed: 4.0, met: 6.0 }, // hiking, cross country
+]
+
+// Codes 01010–01060: bicycling on level ground
+export const CYCLING_METS: MetBand[] = [
+  { speed: 0, met: 1.3 },
+  { speed: 1.6, met: 4.0 }, // < 10 mph, leisure
+  { speed: 16.1, met: 6.8 }, // 10–11.9 mph
+  { speed: 19.3, met: 8.0 }, // 12–13.9 mph
+  { speed: 22.5, met: 10.0 }, // 14–15.9 mph
+  { speed: 25.7, met: 12.0 }, // 16–19 mph
+  { speed: 32.2, met: 15.8 }, // > 20 mph
+]
+
+// Body weight (kg) used until the user saves a profile
+export const REFERENCE_WEIGHT = 70
+
+// Below this speed an on-foot session is scored as walking, above it as running
+const WALK_RUN_SPEED = 6.4 // km/h
+
+// Altitude changes over shorter stretches are mostly GPS noise
+export const MIN_GRADE_DISTANCE = 10 // meters
+const MAX_GRADE = 0.25
+
+export function metForSpeed(speed: number, bands: MetBand[]): number {
+  let met = bands[0].met
+  for (const band of bands) {
+    if (speed < band.speed) break
+    met = band.met
+  }
+  return met
+}
+
+// Rise over run for a stretch of `distance` meters, or 0 without usable altitude
+export function segmentGrade(rise: number | null, distance: number): number {
+  if (rise === null || distance < MIN_GRADE_DISTANCE) return 0
+  return Math.max(-MAX_GRADE, Math.min(MAX_GRADE, rise / distance))
+}
+
+// Scale a level-ground MET for an uphill grade using the ACSM metabolic equations
+// (VO2 = 3.5 + h·S + v·S·G, S in m/min). Downhill is scored as level ground, which the equations do not cover.
+export function gradeAdjustedMet(met: number, speed: number, grade: number, running: boolean): number {
+  if (grade <= 0) return met
+  const metersPerMinute = (speed * 1000) / 60
+  const horizontal = running ? 0.2 : 0.1
+  const vertical = running ? 0.9 : 1.8
+  const level = 3.5 + horizontal * metersPerMinute
+  return met * ((level + vertical * metersPerMinute * grade) / level)
+}
+
+// MET for moving on foot at `speed` km/h up or down `grade`
+export function onFootMet(speed: number, grade = 0): number {
+  const running = speed >= WALK_RUN_SPEED
+  const met = metForSpeed(speed, running ? RUNNING_METS : WALKING_METS)
+  return gradeAdjustedMet(met, speed, grade, running)
+}
+
+// MET for an activity at `speed` km/h. Jogs and runs switch to walking values when slowed to a walk;
+// cycling has no published gradient correction, so it is scored on the level.
+export function activityMet(activity: ActivityType, speed: number, grade = 0): number {
+  switch (activity) {
+    case "walk":
+      return gradeAdjustedMet(metForSpeed(speed, WALKING_METS), speed, grade, false)
+    case "hike":
+      return gradeAdjustedMet(metForSpeed(speed, HIKING_METS), speed, grade, false)
+    case "cycle":
+      return metForSpeed(speed, CYCLING_METS)
+    default:
+      return onFootMet(speed, grade)
+  }
+}
+
+// kcal = MET × body weight (kg) × hours
+export function caloriesFor(met: number, weight: number, seconds: number): number {
+  return (met * weight * seconds) / 3600
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest"
+import { createMonotonicClock } from "@/lib/clock"
+import { movingTime } from "@/lib/metrics"
+import { INITIAL_SESSION, sessionReducer } from "@/lib/session-machine"
+
+const HOUR = 3600000
+
+// A wall clock that can be set like the system clock, and a steady elapsed-time counter
+function fakeClocks(wall: number) {
+  const clocks = { wall, elapsed: 0 }
+  const advance = (ms: number) => {
+    clocks.wall += ms
+    clocks.elapsed += ms
+  }
+  const now = createMonotonicClock(
+    () => clocks.wall,
+    () => clocks.elapsed,
+  )
+  return { clocks, advance, now }
+}
+
+describe("createMonotonicClock", () => {
+  it("starts at the wall-clock time", () => {
+    const { now } = fakeClocks(1700000000000)
+    expect(now()).toBe(1700000000000)
+  })
+
+  it("advances with elapsed time", () => {
+    const { advance, now } = fakeClocks(1700000000000)
+    advance(1500)
+    expect(now()).toBe(1700000001500)
+  })
+
+  it("ignores the wall clock being set back", () => {
+    const { clocks, advance, now } = fakeClocks(1700000000000)
+    advance(10000)
+    const before = now()
+    clocks.wall -= HOUR
+    advance(1000)
+    expect(now()).toBe(before + 1000)
+  })
+
+  it("ignores the wall clock jumping forward", () => {
+    const { clocks, advance, now } = fakeClocks(1700000000000)
+    advance(10000)
+    const before = now()
+    clocks.wall += HOUR
+    advance(1000)
+    expect(now()).toBe(before + 1000)
+  })
+
+  it("keeps a session's timeline true across a clock change", () => {
+    const { clocks, advance, now } = fakeClocks(1700000000000)
+    let session = sessionReducer(INITIAL_SESSION, { type: "start" })
+    session = sessionReducer(session, { type: "fix", at: now() })
+    advance(10 * 60000)
+    session = sessionReducer(session, { type: "pause", at: now() })
+    // The device syncs its clock back an hour during the pause
+    clocks.wall -= HOUR
+    advance(60000)
+    session = sessionReducer(session, { type: "resume", at: now() })
+    // and a time zone change moves it two hours forward while running
+    clocks.wall += 2 * HOUR
+    advance(5 * 60000)
+    session = sessionReducer(session, { type: "stop", at: now() })
+
+    expect(movingTime(session.activeIntervals, now())).toBe(15 * 60)
+    expect(session.endTime! - session.startTime!).toBe(16 * 60000)
+    const times = session.transitions.map((transition) => transition.timestamp)
+    expect(times).toEqual([...times].sort((a, b) => a - b))
+  })
+
+  it("runs faster from the moment its rate is raised", () => {
+    const { advance, now } = fakeClocks(1700000000000)
+    advance(1000)
+    now.setRate(10)
+    expect(now()).toBe(1700000001000)
+    advance(1000)
+    expect(now()).toBe(1700000011000)
+    expect(now.rate()).toBe(10)
+  })
+
+  it("returns to wall-clock time when set back to real time", () => {
+    const { clocks, advance, now } = fakeClocks(1700000000000)
+    now.setRate(10)
+    advance(1000)
+    now.setRate(1)
+    expect(now()).toBe(clocks.wall)
+    advance(1000)
+    expect(now()).toBe(clocks.wall)
+  })
+})
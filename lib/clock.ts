@@ -0,0 +1,32 @@
+// Session time in epoch milliseconds that only moves forward. It is read from the wall clock once and then advanced
+// by performance.now(), so a clock change during a run (NTP sync, a manual edit, a time zone change on some devices)
+// cannot stretch, shrink or reverse a session's duration, pauses or laps.
+export interface MonotonicClock {
+  (): number
+  // How many times faster than real time the clock runs
+  rate(): number
+  // Run faster for a developer-mode simulation, so fixes and the session timeline share simulated time. Only
+  // changed between sessions: returning to 1× also returns to wall-clock time, which can move the clock back.
+  setRate(rate: number): void
+}
+
+export function createMonotonicClock(
+  wallNow: () => number = () => Date.now(),
+  elapsed: () => number = () => performance.now(),
+): MonotonicClock {
+  let origin = wallNow()
+  let since = elapsed()
+  let speed = 1
+  const now = () => origin + (elapsed() - since) * speed
+
+  return Object.assign(now, {
+    rate: () => speed,
+    setRate(rate: number) {
+      origin = rate === 1 && speed !== 1 ? wallNow() : now()
+      since = elapsed()
+      speed = rate
+    },
+  })
+}
+
+export const monotonicNow = createMonotonicClock()
@@ -0,0 +1,15 @@
+// Offer generated text content to the user as a file download
+export function downloadFile(fileName: string, contents: string, mimeType: string) {
+  const blob = new Blob([contents], { type: mimeType })
+  const url = URL.createObjectURL(blob)
+
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+
+  // Revoke on the next tick so the download has started before the URL goes away
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
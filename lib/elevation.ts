@@ -0,0 +1,64 @@
+import type { Position } from "@/lib/types"
+
+// GPS altitude is several times noisier than the horizontal position, so it gets its own 1-D filter
+// and gain/loss only counts once the smoothed elevation has moved by more than the hysteresis threshold.
+
+// Variance (m²) the true elevation may drift per meter travelled
+const PROCESS_NOISE = 0.02
+// Assumed vertical accuracy (m) for fixes that report none
+const DEFAULT_ALTITUDE_ACCURACY = 15
+// Smaller elevation changes are treated as noise rather than climbing or descending
+export const ASCENT_THRESHOLD = 3 // meters
+
+export interface ElevationState {
+  // Smoothed elevation (m) and its variance, null until the first fix with altitude
+  elevation: number | null
+  variance: number
+  // Elevation the next climb or descent is measured from
+  reference: number | null
+  ascent: number
+  descent: number
+}
+
+export const EMPTY_ELEVATION: ElevationState = {
+  elevation: null,
+  variance: 0,
+  reference: null,
+  ascent: 0,
+  descent: 0,
+}
+
+// One point of the elevation profile, located so it can be highlighted on the route
+export interface ElevationSample {
+  distance: number
+  elevation: number
+  lat: number
+  lng: number
+}
+
+// Fold in a fix `travelled` meters after the previous one; fixes without altitude leave the state unchanged
+export function addElevation(state: ElevationState, position: Position, travelled: number): ElevationState {
+  const altitude = position.altitude
+  if (altitude === undefined) return state
+
+  const accuracy = position.altitudeAccuracy ?? DEFAULT_ALTITUDE_ACCURACY
+  const measurementVariance = accuracy * accuracy
+  if (state.elevation === null) {
+    return { ...state, elevation: altitude, variance: measurementVariance, reference: altitude }
+  }
+
+  const predicted = state.variance + PROCESS_NOISE * travelled
+  const gain = predicted / (predicted + measurementVariance)
+  const elevation = state.elevation + gain * (altitude - state.elevation)
+  const variance = (1 - gain) * predicted
+
+  const reference = state.reference ?? elevation
+  const change = elevation - reference
+  if (change >= ASCENT_THRESHOLD) {
+    return { elevation, variance, reference: elevation, ascent: state.ascent + change, descent: state.descent }
+  }
+  if (change <= -ASCENT_THRESHOLD) {
+    return { elevation, variance, reference: elevation, ascent: state.ascent, descent: state.descent - change }
+  }
+  return { ...state, elevation, variance }
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest"
+import { EMPTY_FIX_QUEUE, enqueueFix, nextRelease, releaseFixes, REORDER_WINDOW, type FixQueue } from "@/lib/fix-queue"
+import type { Position } from "@/lib/types"
+
+const fix = (timestamp: number): Position => ({ lat: 52, lng: 13, timestamp })
+
+// Enqueue fixes as [timestamp, arrivedAt] pairs, expecting each to be held
+function hold(queue: FixQueue, ...fixes: [number, number][]) {
+  return fixes.reduce((held, [timestamp, arrivedAt]) => {
+    const { queue: next, dropped } = enqueueFix(held, fix(timestamp), arrivedAt)
+    expect(dropped).toBeNull()
+    return next
+  }, queue)
+}
+
+const timestamps = (fixes: Position[]) => fixes.map((position) => position.timestamp)
+
+describe("enqueueFix and releaseFixes", () => {
+  it("holds a fix for the reorder window", () => {
+    const queue = hold(EMPTY_FIX_QUEUE, [1000, 5000])
+    expect(nextRelease(queue)).toBe(5000 + REORDER_WINDOW)
+    expect(releaseFixes(queue, 5000 + REORDER_WINDOW - 1).ready).toEqual([])
+    expect(timestamps(releaseFixes(queue, 5000 + REORDER_WINDOW).ready)).toEqual([1000])
+  })
+
+  it("releases fixes that arrived out of order in timestamp order", () => {
+    const queue = hold(EMPTY_FIX_QUEUE, [3000, 5000], [1000, 5100], [2000, 5200])
+    const { queue: after, ready } = releaseFixes(queue, 5200 + REORDER_WINDOW)
+    expect(timestamps(ready)).toEqual([1000, 2000, 3000])
+    expect(after).toEqual({ pending: [], released: 3000 })
+    expect(nextRelease(after)).toBeNull()
+  })
+
+  it("keeps a newer fix waiting behind an older one that arrived later", () => {
+    const queue = hold(EMPTY_FIX_QUEUE, [2000, 5000], [1000, 5800])
+    expect(releaseFixes(queue, 5000 + REORDER_WINDOW).ready).toEqual([])
+    expect(timestamps(releaseFixes(queue, 5800 + REORDER_WINDOW).ready)).toEqual([1000, 2000])
+  })
+
+  it("drops a fix older than the last one released as late", () => {
+    const { queue } = releaseFixes(hold(EMPTY_FIX_QUEUE, [2000, 5000]), 6000)
+    const result = enqueueFix(queue, fix(1500), 6100)
+    expect(result.dropped).toBe("late")
+    expect(result.queue).toBe(queue)
+  })
+
+  it("drops a fix within 10 ms of the last one released as a duplicate", () => {
+    const { queue } = releaseFixes(hold(EMPTY_FIX_QUEUE, [2000, 5000]), 6000)
+    expect(enqueueFix(queue, fix(2010), 6100).dropped).toBe("duplicate")
+    expect(enqueueFix(queue, fix(1990), 6100).dropped).toBe("duplicate")
+    expect(enqueueFix(queue, fix(2011), 6100).dropped).toBeNull()
+    expect(enqueueFix(queue, fix(1989), 6100).dropped).toBe("late")
+  })
+
+  it("drops a fix within 10 ms of one still held as a duplicate", () => {
+    const queue = hold(EMPTY_FIX_QUEUE, [3000, 5000])
+    const duplicate = enqueueFix(queue, fix(2990), 5100)
+    expect(duplicate.dropped).toBe("duplicate")
+    expect(duplicate.queue).toBe(queue)
+    expect(enqueueFix(queue, fix(3010), 5100).dropped).toBe("duplicate")
+    expect(enqueueFix(queue, fix(2989), 5100).dropped).toBeNull()
+    expect(enqueueFix(queue, fix(3011), 5100).dropped).toBeNull()
+  })
+})
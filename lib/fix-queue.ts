@@ -0,0 +1,59 @@
+import type { Position } from "@/lib/types"
+
+// Fixes can arrive late (batched by the OS or held up by a busy main thread) and twice (a cached fix redelivered
+// after the watch restarts). Each fix is held back briefly so a late one can still take its place, then released
+// in timestamp order; anything older than the last released fix is dropped, since the metrics have moved past it.
+
+export const REORDER_WINDOW = 1000 // ms a fix is held after it arrives
+// Fix timestamps are translated between two clocks that drift slightly, so the same fix may differ by a few ms
+const SAME_FIX_TOLERANCE = 10 // ms
+
+export type OutOfOrderReason = "late" | "duplicate"
+
+export interface FixQueue {
+  // Held fixes, oldest timestamp first
+  pending: { fix: Position; arrivedAt: number }[]
+  // Timestamp of the last fix released, or null before the first
+  released: number | null
+}
+
+export const EMPTY_FIX_QUEUE: FixQueue = { pending: [], released: null }
+
+const sameFix = (a: number, b: number) => Math.abs(a - b) <= SAME_FIX_TOLERANCE
+
+// Hold a fix for release, or say why it cannot be placed in the track
+export function enqueueFix(
+  queue: FixQueue,
+  fix: Position,
+  arrivedAt: number,
+): { queue: FixQueue; dropped: OutOfOrderReason | null } {
+  const { released, pending } = queue
+  if (
+    (released !== null && sameFix(fix.timestamp, released)) ||
+    pending.some((held) => sameFix(held.fix.timestamp, fix.timestamp))
+  ) {
+    return { queue, dropped: "duplicate" }
+  }
+  if (released !== null && fix.timestamp < released) return { queue, dropped: "late" }
+
+  const index = pending.findIndex((held) => held.fix.timestamp > fix.timestamp)
+  const at = index === -1 ? pending.length : index
+  return {
+    queue: { ...queue, pending: [...pending.slice(0, at), { fix, arrivedAt }, ...pending.slice(at)] },
+    dropped: null,
+  }
+}
+
+// Release the oldest fixes that have been held for the whole window; a newer fix waits behind an older one
+export function releaseFixes(queue: FixQueue, now: number): { queue: FixQueue; ready: Position[] } {
+  const waiting = queue.pending.findIndex((held) => now - held.arrivedAt < REORDER_WINDOW)
+  const count = waiting === -1 ? queue.pending.length : waiting
+  if (count === 0) return { queue, ready: [] }
+
+  const ready = queue.pending.slice(0, count).map((held) => held.fix)
+  return { queue: { pending: queue.pending.slice(count), released: ready[ready.length - 1].timestamp }, ready }
+}
+
+// When the oldest held fix is due, or null when nothing is held
+export const nextRelease = (queue: FixQueue) =>
+  queue.pending.length > 0 ? queue.pending[0].arrivedAt + REORDER_WINDOW : null
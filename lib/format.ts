@@ -0,0 +1,123 @@
+import { pace } from "@/lib/metrics"
+import type { SplitUnit, UnitSystem } from "@/lib/types"
+
+// Every number shown to the user goes through these helpers so the units preference applies everywhere
+
+export const METERS_PER_MILE = 1609.344
+export const METERS_PER_FOOT = 0.3048
+const KG_PER_POUND = 0.45359237
+const CM_PER_INCH = 2.54
+// Below a tenth of a mile, imperial distances read better in feet
+const FEET_BELOW = METERS_PER_MILE / 10
+
+export const distanceUnit = (units: UnitSystem): SplitUnit => (units === "imperial" ? "mi" : "km")
+
+export const speedUnit = (units: UnitSystem) => (units === "imperial" ? "mph" : "km/h")
+
+export const lengthUnit = (units: UnitSystem) => (units === "imperial" ? "ft" : "m")
+
+// Numeric conversions for charts and inputs; the format* helpers below add the unit label
+export const convertDistance = (meters: number, units: UnitSystem = "metric") =>
+  meters / (units === "imperial" ? METERS_PER_MILE : 1000)
+
+export const convertLength = (meters: number, units: UnitSystem = "metric") =>
+  units === "imperial" ? meters / METERS_PER_FOOT : meters
+
+export const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60)
+  const secs = Math.floor(seconds % 60)
+  return `${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`
+}
+
+export const formatDistance = (meters: number, units: UnitSystem = "metric") => {
+  if (units === "imperial") {
+    if (meters < FEET_BELOW) {
+      return `${Math.round(meters / METERS_PER_FOOT)}ft`
+    }
+    return `${(meters / METERS_PER_MILE).toFixed(2)}mi`
+  }
+  if (meters < 1000) {
+    return `${Math.round(meters)}m`
+  }
+  return `${(meters / 1000).toFixed(2)}km`
+}
+
+// Short lengths such as GPS accuracy or elevation, in metres or feet
+export const formatLength = (meters: number, units: UnitSystem = "metric") =>
+  `${Math.round(convertLength(meters, units))}${lengthUnit(units)}`
+
+export const formatElevationChange = (meters: number | null, units: UnitSystem = "metric") => {
+  if (meters === null) return "—"
+  const formatted = formatLength(meters, units)
+  return formatted.startsWith("-") || formatted.startsWith("0") ? formatted : `+${formatted}`
+}
+
+export const convertSpeed = (kmh: number, units: UnitSystem = "metric") =>
+  units === "imperial" ? (kmh * 1000) / METERS_PER_MILE : kmh
+
+export const formatSpeed = (kmh: number, units: UnitSystem = "metric", digits = 1) =>
+  `${convertSpeed(kmh, units).toFixed(digits)} ${speedUnit(units)}`
+
+// A pace in seconds per kilometre as min:sec per km or per mile
+export const formatPaceValue = (secondsPerKm: number | null, units: UnitSystem = "metric") => {
+  if (secondsPerKm === null || !Number.isFinite(secondsPerKm)) {
+    return "--:--"
+  }
+  const seconds = units === "imperial" ? (secondsPerKm * METERS_PER_MILE) / 1000 : secondsPerKm
+  return `${formatTime(seconds)} /${distanceUnit(units)}`
+}
+
+// Pace from a distance (m) covered in a duration (s)
+export const formatPace = (meters: number, seconds: number, units: UnitSystem = "metric") =>
+  formatPaceValue(pace(meters, seconds), units)
+
+// Body measurements are stored in kg and cm; imperial users see and type pounds and inches
+export const weightUnit = (units: UnitSystem) => (units === "imperial" ? "lb" : "kg")
+
+export const heightUnit = (units: UnitSystem) => (units === "imperial" ? "in" : "cm")
+
+export const toDisplayWeight = (kg: number, units: UnitSystem) =>
+  units === "imperial" ? Math.round(kg / KG_PER_POUND) : Math.round(kg * 10) / 10
+
+export const fromDisplayWeight = (value: number, units: UnitSystem) =>
+  units === "imperial" ? value * KG_PER_POUND : value
+
+export const toDisplayHeight = (cm: number, units: UnitSystem) =>
+  units === "imperial" ? Math.round(cm / CM_PER_INCH) : Math.round(cm)
+
+export const fromDisplayHeight = (value: number, units: UnitSystem) =>
+  units === "imperial" ? value * CM_PER_INCH : value
+
+export const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  })
+
+// One-line description of a session, e.g. "5.02km in 28:31 • 05:41 /km"
+export const formatSummary = (meters: number, movingSeconds: number, units: UnitSystem = "metric") =>
+  `${formatDistance(meters, units)} in ${formatTime(movingSeconds)} • ${formatPace(meters, movingSeconds, units)}`
+
+export type Formatter = ReturnType<typeof createFormatter>
+
+// The helpers above bound to one unit system, as handed out by useFormat()
+export function createFormatter(units: UnitSystem) {
+  return {
+    units,
+    distanceUnit: distanceUnit(units),
+    speedUnit: speedUnit(units),
+    lengthUnit: lengthUnit(units),
+    time: formatTime,
+    date: formatDate,
+    distance: (meters: number) => formatDistance(meters, units),
+    length: (meters: number) => formatLength(meters, units),
+    distanceValue: (meters: number) => convertDistance(meters, units),
+    lengthValue: (meters: number) => convertLength(meters, units),
+    elevationChange: (meters: number | null) => formatElevationChange(meters, units),
+    speedValue: (kmh: number, digits = 1) => convertSpeed(kmh, units).toFixed(digits),
+    speed: (kmh: number, digits = 1) => formatSpeed(kmh, units, digits),
+    paceValue: (secondsPerKm: number | null) => formatPaceValue(secondsPerKm, units),
+    pace: (meters: number, seconds: number) => formatPace(meters, seconds, units),
+    summary: (meters: number, movingSeconds: number) => formatSummary(meters, movingSeconds, units),
+  }
+}
@@ -0,0 +1,207 @@
+import { monotonicNow } from "@/lib/clock"
+import { EMPTY_FIX_QUEUE, enqueueFix, nextRelease, releaseFixes, type OutOfOrderReason } from "@/lib/fix-queue"
+import { browserLocationProvider, type LocationProvider } from "@/lib/location-provider"
+import type { Position } from "@/lib/types"
+
+// What the browser reports about the geolocation permission, or "unsupported" without the Permissions API
+export type GpsPermission = PermissionState | "unsupported"
+
+export type GpsError = "denied" | "unavailable" | "timeout" | "unsupported"
+
+export type GpsStatus =
+  | { state: "idle" }
+  | { state: "acquiring" }
+  | { state: "tracking" }
+  // Fixes stopped arriving; the watch is restarted at `retryAt`
+  | { state: "retrying"; error: "unavailable" | "timeout"; attempt: number; retryAt: number }
+  // Tracking cannot continue until the user does something about it
+  | { state: "failed"; error: "denied" | "unsupported" }
+
+export const GPS_IDLE: GpsStatus = { state: "idle" }
+
+// What to tell the user for each kind of failure
+export const GPS_GUIDANCE: Record<GpsError, { title: string; description: string }> = {
+  denied: {
+    title: "Location permission denied",
+    description: "Allow location access for this site in your browser settings, then tap Retry GPS.",
+  },
+  unavailable: {
+    title: "GPS signal lost",
+    description: "Your device cannot determine its position. Move to open sky, away from tall buildings.",
+  },
+  timeout: {
+    title: "Waiting for GPS",
+    description: "No position arrived in time. Keep the screen on and make sure location services are enabled.",
+  },
+  unsupported: {
+    title: "GPS unavailable",
+    description: "Geolocation is not supported by this browser.",
+  },
+}
+
+// Shown before Start so a blocked permission is found before the run, not during it
+export const GPS_PERMISSION_HINTS: Record<PermissionState, string> = {
+  granted: "Location access is allowed.",
+  prompt: "Your browser will ask for location access when you start.",
+  denied: "Location access is blocked. Allow it in your browser's site settings to record a route.",
+}
+
+// Short status for the control panel badge
+export function describeGpsStatus(status: GpsStatus, now = Date.now()): string {
+  switch (status.state) {
+    case "idle":
+      return "GPS off"
+    case "acquiring":
+      return "Acquiring GPS..."
+    case "tracking":
+      return "GPS tracking"
+    case "retrying": {
+      const seconds = Math.ceil((status.retryAt - now) / 1000)
+      const problem = status.error === "timeout" ? "No GPS fix" : "GPS signal lost"
+      return seconds > 0 ? `${problem}, retrying in ${seconds} s` : `${problem}, reconnecting...`
+    }
+    case "failed":
+      return GPS_GUIDANCE[status.error].title
+  }
+}
+
+const RETRY_BASE_DELAY = 1000 // ms
+const RETRY_MAX_DELAY = 30000 // ms
+
+// Exponential backoff between watch restarts: 1 s, 2 s, 4 s ... capped at 30 s
+export const retryDelay = (attempt: number) => Math.min(RETRY_BASE_DELAY * 2 ** attempt, RETRY_MAX_DELAY)
+
+// Current permission state, and a subscription to changes the user makes in the browser settings
+export async function watchGpsPermission(onChange: (permission: GpsPermission) => void): Promise<() => void> {
+  if (typeof navigator === "undefined" || !navigator.permissions) {
+    onChange("unsupported")
+    return () => {}
+  }
+
+  try {
+    const status = await navigator.permissions.query({ name: "geolocation" })
+    const publish = () => onChange(status.state)
+    publish()
+    status.addEventListener("change", publish)
+    return () => status.removeEventListener("change", publish)
+  } catch {
+    onChange("unsupported")
+    return () => {}
+  }
+}
+
+export interface GeolocationTracker {
+  // (Re)start watching; also used to retry right away after a failure
+  start(): void
+  stop(): void
+}
+
+export interface GeolocationTrackerOptions {
+  // Fixes in timestamp order, each held back briefly so a late one can still be placed
+  onPosition: (position: Position) => void
+  // A fix that arrived too late to be placed, or twice
+  onDiscard?: (reason: OutOfOrderReason) => void
+  // Called when the status changes, not for every fix
+  onStatus: (status: GpsStatus) => void
+  // Picked on every start, so a simulated source can be swapped in between sessions
+  provider?: () => LocationProvider
+}
+
+// Watches a location provider: a permission denial stops tracking, any other error restarts the watch with backoff.
+// The fix queue outlives restarts, so a cached fix delivered again after a retry is recognised.
+export function createGeolocationTracker({
+  onPosition,
+  onDiscard,
+  onStatus,
+  provider: getProvider = () => browserLocationProvider,
+}: GeolocationTrackerOptions): GeolocationTracker {
+  let provider = browserLocationProvider
+  let unwatch: (() => void) | null = null
+  let retryTimer: ReturnType<typeof setTimeout> | null = null
+  let attempt = 0
+  let status: GpsStatus = GPS_IDLE
+  let queue = EMPTY_FIX_QUEUE
+  let releaseTimer: ReturnType<typeof setTimeout> | null = null
+
+  const release = () => {
+    releaseTimer = null
+    const result = releaseFixes(queue, monotonicNow())
+    queue = result.queue
+    result.ready.forEach(onPosition)
+    scheduleRelease()
+  }
+
+  const scheduleRelease = () => {
+    const due = nextRelease(queue)
+    if (releaseTimer !== null || due === null) return
+    // The queue works in session time, which a simulation runs faster than real time
+    releaseTimer = setTimeout(release, Math.max(0, (due - monotonicNow()) / monotonicNow.rate()))
+  }
+
+  const setStatus = (next: GpsStatus) => {
+    status = next
+    onStatus(next)
+  }
+
+  const clear = () => {
+    if (unwatch) {
+      unwatch()
+      unwatch = null
+    }
+    if (retryTimer !== null) {
+      clearTimeout(retryTimer)
+      retryTimer = null
+    }
+  }
+
+  const watch = () => {
+    unwatch = provider.watch(
+      (position) => {
+        attempt = 0
+        if (status.state !== "tracking") setStatus({ state: "tracking" })
+        const result = enqueueFix(queue, position, monotonicNow())
+        queue = result.queue
+        if (result.dropped) onDiscard?.(result.dropped)
+        else scheduleRelease()
+      },
+      (error) => {
+        clear()
+        if (error === "denied") {
+          setStatus({ state: "failed", error })
+          return
+        }
+
+        const delay = retryDelay(attempt)
+        attempt++
+        setStatus({ state: "retrying", error, attempt, retryAt: Date.now() + delay })
+        retryTimer = setTimeout(() => {
+          retryTimer = null
+          watch()
+        }, delay)
+      },
+    )
+  }
+
+  return {
+    start() {
+      clear()
+      attempt = 0
+      provider = getProvider()
+      if (!provider.isSupported()) {
+        setStatus({ state: "failed", error: "unsupported" })
+        return
+      }
+      setStatus({ state: "acquiring" })
+      watch()
+    },
+    stop() {
+      clear()
+      attempt = 0
+      // Fixes still held when the session stops are not recorded
+      if (releaseTimer !== null) clearTimeout(releaseTimer)
+      releaseTimer = null
+      queue = EMPTY_FIX_QUEUE
+      if (status.state !== "idle") setStatus(GPS_IDLE)
+    },
+  }
+}
@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { positionFromGeolocation } from "@/lib/gps-filter"
+
+const WALL_NOW = Date.UTC(2024, 4, 1, 7, 30)
+// The session clock has drifted from the wall clock, e.g. after the system time was changed mid-run
+const SESSION_NOW = WALL_NOW - 3600000
+
+function geolocation(timestamp: number, coords: Partial<GeolocationCoordinates> = {}) {
+  return {
+    timestamp,
+    coords: {
+      latitude: 52.52,
+      longitude: 13.405,
+      accuracy: 8,
+      altitude: null,
+      altitudeAccuracy: null,
+      speed: null,
+      heading: null,
+      ...coords,
+    },
+  } as GeolocationPosition
+}
+
+describe("positionFromGeolocation", () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(WALL_NOW)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("stamps a fix with when it was taken on the session clock", () => {
+    // Taken 3 s before it was delivered
+    const position = positionFromGeolocation(geolocation(WALL_NOW - 3000), SESSION_NOW)
+    expect(position.timestamp).toBe(SESSION_NOW - 3000)
+  })
+
+  it("keeps the order of fixes delivered together in a batch", () => {
+    const batch = [WALL_NOW - 4000, WALL_NOW - 3000, WALL_NOW - 2000].map((taken) =>
+      positionFromGeolocation(geolocation(taken), SESSION_NOW),
+    )
+    expect(batch.map((position) => position.timestamp)).toEqual([
+      SESSION_NOW - 4000,
+      SESSION_NOW - 3000,
+      SESSION_NOW - 2000,
+    ])
+  })
+
+  it("treats a fix dated in the future as just taken", () => {
+    expect(positionFromGeolocation(geolocation(WALL_NOW + 5000), SESSION_NOW).timestamp).toBe(SESSION_NOW)
+  })
+
+  it("keeps the coordinates and leaves unreported fields out", () => {
+    expect(positionFromGeolocation(geolocation(WALL_NOW, { altitude: 34.5, speed: 2.5 }), SESSION_NOW)).toEqual({
+      lat: 52.52,
+      lng: 13.405,
+      timestamp: SESSION_NOW,
+      accuracy: 8,
+      altitude: 34.5,
+      altitudeAccuracy: undefined,
+      speed: 2.5,
+      heading: undefined,
+    })
+  })
+})
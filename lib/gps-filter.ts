@@ -0,0 +1,68 @@
+import { monotonicNow } from "@/lib/clock"
+import type { OutOfOrderReason } from "@/lib/fix-queue"
+import { segmentSpeed } from "@/lib/metrics"
+import type { Position } from "@/lib/types"
+
+export interface GpsFilterConfig {
+  // Fixes reporting a horizontal accuracy worse than this (meters) are dropped
+  maxAccuracy: number
+  // Fastest plausible speed (km/h) for the activity; faster jumps are treated as outliers
+  maxSpeed: number
+}
+
+export type RejectionReason = "accuracy" | "speed"
+
+export interface DiscardedFixes {
+  accuracy: number
+  speed: number
+  late: number
+  duplicate: number
+}
+
+export type DiscardReason = RejectionReason | OutOfOrderReason
+
+export const ACCURACY_THRESHOLDS = [10, 20, 30, 50, 100]
+
+export const DEFAULT_GPS_FILTER: GpsFilterConfig = {
+  maxAccuracy: 30,
+  maxSpeed: 30, // a fast jogger stays well below this
+}
+
+export const NO_DISCARDED_FIXES: DiscardedFixes = { accuracy: 0, speed: 0, late: 0, duplicate: 0 }
+
+const optional = (value: number | null) => (value === null || Number.isNaN(value) ? undefined : value)
+
+// Keep the full coordinate record the browser reports for a fix. Its timestamp is when the fix was taken, not when
+// it reached us: the fix's age by the wall clock is carried over to the monotonic session clock.
+export function positionFromGeolocation(position: GeolocationPosition, receivedAt = monotonicNow()): Position {
+  const { coords } = position
+  return {
+    lat: coords.latitude,
+    lng: coords.longitude,
+    timestamp: receivedAt - Math.max(0, Date.now() - position.timestamp),
+    accuracy: coords.accuracy,
+    altitude: optional(coords.altitude),
+    altitudeAccuracy: optional(coords.altitudeAccuracy),
+    speed: optional(coords.speed),
+    heading: optional(coords.heading),
+  }
+}
+
+// Decide whether a fix should be dropped; `previous` is the last accepted fix of the track, if any
+export function checkFix(fix: Position, previous: Position | null, config: GpsFilterConfig): RejectionReason | null {
+  if (fix.accuracy !== undefined && fix.accuracy > config.maxAccuracy) {
+    return "accuracy"
+  }
+
+  if (previous) {
+    const speed = segmentSpeed(previous, fix)
+    if (speed !== null && speed > config.maxSpeed) {
+      return "speed"
+    }
+  }
+
+  return null
+}
+
+export const totalDiscarded = (discarded: DiscardedFixes) =>
+  discarded.accuracy + discarded.speed + discarded.late + discarded.duplicate
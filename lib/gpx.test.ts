@@ -0,0 +1,90 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest"
+import { formatSummary } from "@/lib/format"
+import { toGpx } from "@/lib/gpx"
+import { parseGpx } from "@/lib/track-import"
+import { EMPTY_STATS, type Position, type StateTransition } from "@/lib/types"
+
+const START = Date.UTC(2024, 4, 1, 7, 30)
+
+const fix = (seconds: number, lat: number, lng: number, extra: Partial<Position> = {}): Position => ({
+  lat,
+  lng,
+  timestamp: START + seconds * 1000,
+  ...extra,
+})
+
+// Three fixes, a pause, then three more after resuming
+const positions = [
+  fix(0, 52.5200001, 13.4049999, { altitude: 34.25, accuracy: 4.04 }),
+  fix(5, 52.5201234, 13.4051234, { altitude: 35.5, accuracy: 6 }),
+  fix(10.5, 52.5202468, 13.4052468, { accuracy: 12.36 }),
+  fix(70, 52.5203702, 13.4053702, { altitude: 37.04 }),
+  fix(75, 52.5204936, 13.4054936, { altitude: 38, accuracy: 3.5 }),
+  fix(80, 52.520617, 13.405617),
+]
+
+const transitions: StateTransition[] = [
+  { state: "running", timestamp: START },
+  { state: "paused", timestamp: START + 12000 },
+  { state: "running", timestamp: START + 70000 },
+  { state: "stopped", timestamp: START + 81000 },
+]
+
+const session = { startTime: START, positions, transitions, stats: { ...EMPTY_STATS, distance: 80, movingTime: 22 } }
+
+describe("toGpx", () => {
+  const gpx = toGpx(session, { name: "Morning <jog> & coffee" })
+
+  it("writes one track segment per pause-free stretch", () => {
+    const segments = parseGpx(gpx)
+    expect(segments.map((segment) => segment.length)).toEqual([3, 3])
+    expect(segments[0][2].timestamp).toBe(positions[2].timestamp)
+    expect(segments[1][0].timestamp).toBe(positions[3].timestamp)
+  })
+
+  it("round-trips coordinates and times", () => {
+    const parsed = parseGpx(gpx).flat()
+    expect(parsed).toHaveLength(positions.length)
+    parsed.forEach((position, i) => {
+      expect(position.lat).toBeCloseTo(positions[i].lat, 7)
+      expect(position.lng).toBeCloseTo(positions[i].lng, 7)
+      expect(position.timestamp).toBe(positions[i].timestamp)
+    })
+  })
+
+  it("stamps fixes with ISO 8601 UTC times", () => {
+    expect(gpx).toContain("<time>2024-05-01T07:30:00.000Z</time>")
+    expect(gpx).toContain("<time>2024-05-01T07:30:10.500Z</time>")
+    expect(gpx).toContain("<time>2024-05-01T07:31:20.000Z</time>")
+  })
+
+  it("writes <ele> only for fixes with an altitude", () => {
+    const parsed = parseGpx(gpx).flat()
+    expect(parsed.map((position) => position.altitude)).toEqual([34.3, 35.5, undefined, 37, 38, undefined])
+    expect(gpx.match(/<ele>/g)).toHaveLength(4)
+  })
+
+  it("carries horizontal accuracy in the extension element", () => {
+    const parsed = parseGpx(gpx).flat()
+    expect(parsed.map((position) => position.accuracy)).toEqual([4, 6, 12.4, undefined, 3.5, undefined])
+    expect(gpx).toContain('xmlns:sja="urn:smart-jogging:gpx:1"')
+    expect(gpx).toContain("<sja:accuracy>4.0</sja:accuracy>")
+  })
+
+  it("escapes the name", () => {
+    expect(gpx).toContain("<name>Morning &lt;jog&gt; &amp; coffee</name>")
+  })
+
+  it("describes the session in the requested units", () => {
+    const summary = formatSummary(80, 22, "imperial")
+    expect(toGpx(session, { units: "imperial" }).match(/<desc>([^<]*)<\/desc>/g)).toEqual([
+      `<desc>${summary}</desc>`,
+      `<desc>${summary}</desc>`,
+    ])
+  })
+
+  it("writes an empty track for a session without fixes", () => {
+    expect(parseGpx(toGpx({ ...session, positions: [] }))).toEqual([])
+  })
+})
@@ -0,0 +1,72 @@
+import { ACTIVITIES, sessionActivity } from "@/lib/activities"
+import { formatSummary } from "@/lib/format"
+import { splitSegments } from "@/lib/track"
+import type { JoggingSession, Position, UnitSystem } from "@/lib/types"
+import { escapeXml, exportFileStem, toIsoTime } from "@/lib/xml"
+
+const GPX_NAMESPACE = "http://www.topografix.com/GPX/1/1"
+const GPX_SCHEMA_LOCATION = "http://www.topografix.com/GPX/1/1/gpx.xsd"
+// Horizontal accuracy has no GPX 1.1 element, so it is written as an extension
+const APP_NAMESPACE = "urn:smart-jogging:gpx:1"
+const CREATOR = "Smart Outdoor Jogging Assistant"
+
+export const GPX_MIME_TYPE = "application/gpx+xml"
+
+type GpxSource = Pick<JoggingSession, "startTime" | "positions" | "transitions" | "stats" | "activity">
+
+export interface GpxOptions {
+  name?: string
+  // Units for the human-readable <desc> summary; coordinates and elevations are always metric
+  units?: UnitSystem
+}
+
+function trackPoint(position: Position): string {
+  const lines = [`      <trkpt lat="${position.lat.toFixed(7)}" lon="${position.lng.toFixed(7)}">`]
+
+  if (position.altitude !== undefined && Number.isFinite(position.altitude)) {
+    lines.push(`        <ele>${position.altitude.toFixed(1)}</ele>`)
+  }
+  lines.push(`        <time>${toIsoTime(position.timestamp)}</time>`)
+  if (position.accuracy !== undefined && Number.isFinite(position.accuracy)) {
+    lines.push(
+      "        <extensions>",
+      `          <sja:accuracy>${position.accuracy.toFixed(1)}</sja:accuracy>`,
+      "        </extensions>",
+    )
+  }
+  lines.push("      </trkpt>")
+
+  return lines.join("\n")
+}
+
+// Serialize a session as a GPX 1.1 document with one <trkseg> per pause-free stretch
+export function toGpx(
+  session: GpxSource,
+  { name = `Jog ${new Date(session.startTime).toLocaleString()}`, units = "metric" }: GpxOptions = {},
+): string {
+  const summary = formatSummary(session.stats.distance, session.stats.movingTime, units)
+  const segments = splitSegments(session.positions, session.transitions)
+    .map((segment) => ["    <trkseg>", ...segment.map(trackPoint), "    </trkseg>"].join("\n"))
+    .join("\n")
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="${CREATOR}" xmlns="${GPX_NAMESPACE}" xmlns:sja="${APP_NAMESPACE}"`,
+    `  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="${GPX_NAMESPACE} ${GPX_SCHEMA_LOCATION}">`,
+    "  <metadata>",
+    `    <name>${escapeXml(name)}</name>`,
+    `    <desc>${escapeXml(summary)}</desc>`,
+    `    <time>${toIsoTime(session.startTime)}</time>`,
+    "  </metadata>",
+    "  <trk>",
+    `    <name>${escapeXml(name)}</name>`,
+    `    <desc>${escapeXml(summary)}</desc>`,
+    `    <type>${ACTIVITIES[sessionActivity(session)].gpxType}</type>`,
+    ...(segments ? [segments] : []),
+    "  </trk>",
+    "</gpx>",
+    "",
+  ].join("\n")
+}
+
+export const gpxFileName = (startTime: number) => `${exportFileStem(startTime)}.gpx`
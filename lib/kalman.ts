@@ -0,0 +1,104 @@
+import type { Position } from "@/lib/types"
+
+const EARTH_RADIUS = 6371000 // meters
+const DEFAULT_MEASUREMENT_ACCURACY = 10 // meters, used when a fix does not report accuracy
+
+export interface KalmanConfig {
+  // Feed the smoothed track into the metrics instead of the raw one
+  enabled: boolean
+  // Expected acceleration noise (m/s²); higher values follow the raw fixes more closely
+  processNoise: number
+}
+
+export const DEFAULT_KALMAN: KalmanConfig = {
+  enabled: true,
+  processNoise: 1.5,
+}
+
+// Position/velocity estimate along one axis with its 2x2 covariance (symmetric, so three terms)
+interface AxisState {
+  position: number
+  velocity: number
+  p00: number
+  p01: number
+  p11: number
+}
+
+export interface KalmanState {
+  origin: { lat: number; lng: number }
+  east: AxisState
+  north: AxisState
+  timestamp: number
+}
+
+// Local east/north offsets in meters from an origin; accurate enough over the extent of a run
+function toLocal(origin: KalmanState["origin"], lat: number, lng: number) {
+  const rad = Math.PI / 180
+  return {
+    east: (lng - origin.lng) * rad * EARTH_RADIUS * Math.cos(origin.lat * rad),
+    north: (lat - origin.lat) * rad * EARTH_RADIUS,
+  }
+}
+
+function fromLocal(origin: KalmanState["origin"], east: number, north: number) {
+  const rad = Math.PI / 180
+  return {
+    lat: origin.lat + north / EARTH_RADIUS / rad,
+    lng: origin.lng + east / (EARTH_RADIUS * Math.cos(origin.lat * rad)) / rad,
+  }
+}
+
+function initialAxis(position: number, variance: number): AxisState {
+  return { position, velocity: 0, p00: variance, p01: 0, p11: 10 }
+}
+
+// Constant-velocity predict step followed by a position measurement update
+function stepAxis(axis: AxisState, measurement: number, variance: number, dt: number, q: number): AxisState {
+  const dt2 = dt * dt
+  const position = axis.position + axis.velocity * dt
+  const velocity = axis.velocity
+  const p00 = axis.p00 + 2 * dt * axis.p01 + dt2 * axis.p11 + (q * dt2 * dt2) / 4
+  const p01 = axis.p01 + dt * axis.p11 + (q * dt2 * dt) / 2
+  const p11 = axis.p11 + q * dt2
+
+  const s = p00 + variance
+  const k0 = p00 / s
+  const k1 = p01 / s
+  const innovation = measurement - position
+
+  return {
+    position: position + k0 * innovation,
+    velocity: velocity + k1 * innovation,
+    p00: (1 - k0) * p00,
+    p01: (1 - k0) * p01,
+    p11: p11 - k1 * p01,
+  }
+}
+
+// Smooth a new fix; pass the previous state (or null for the first fix) and keep the returned one
+export function smoothPosition(
+  state: KalmanState | null,
+  fix: Position,
+  config: KalmanConfig = DEFAULT_KALMAN,
+): { state: KalmanState; position: Position } {
+  const accuracy = fix.accuracy ?? DEFAULT_MEASUREMENT_ACCURACY
+  const variance = accuracy * accuracy
+
+  if (!state) {
+    const origin = { lat: fix.lat, lng: fix.lng }
+    return {
+      state: { origin, east: initialAxis(0, variance), north: initialAxis(0, variance), timestamp: fix.timestamp },
+      position: { ...fix },
+    }
+  }
+
+  const dt = Math.max(0, (fix.timestamp - state.timestamp) / 1000)
+  const measured = toLocal(state.origin, fix.lat, fix.lng)
+  const east = stepAxis(state.east, measured.east, variance, dt, config.processNoise)
+  const north = stepAxis(state.north, measured.north, variance, dt, config.processNoise)
+
+  return {
+    state: { origin: state.origin, east, north, timestamp: fix.timestamp },
+    position: { ...fix, ...fromLocal(state.origin, east.position, north.position) },
+  }
+}
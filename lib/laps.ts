@@ -0,0 +1,51 @@
+import type { Lap, Position } from "@/lib/types"
+
+// Totals at the moment a lap was started, plus the fastest segment seen since
+export interface LapTracker {
+  laps: Lap[]
+  startTime: number
+  startDistance: number
+  startMovingTime: number
+  maxSpeed: number
+}
+
+// Session totals the lap boundaries are measured against
+export interface LapSnapshot {
+  timestamp: number
+  distance: number
+  movingTime: number
+  position: Position | null
+}
+
+export function createLapTracker(startTime: number): LapTracker {
+  return { laps: [], startTime, startDistance: 0, startMovingTime: 0, maxSpeed: 0 }
+}
+
+export function recordLapSpeed(tracker: LapTracker, speed: number | null): LapTracker {
+  if (speed === null || speed <= tracker.maxSpeed) return tracker
+  return { ...tracker, maxSpeed: speed }
+}
+
+// The lap in progress as of `snapshot`, without closing it
+export function currentLap(tracker: LapTracker, snapshot: LapSnapshot): Lap {
+  return {
+    index: tracker.laps.length + 1,
+    startTime: tracker.startTime,
+    endTime: snapshot.timestamp,
+    distance: snapshot.distance - tracker.startDistance,
+    time: snapshot.movingTime - tracker.startMovingTime,
+    maxSpeed: tracker.maxSpeed,
+    endPosition: snapshot.position ? { lat: snapshot.position.lat, lng: snapshot.position.lng } : null,
+  }
+}
+
+// Close the lap in progress and start the next one from the same snapshot
+export function closeLap(tracker: LapTracker, snapshot: LapSnapshot): LapTracker {
+  return {
+    laps: [...tracker.laps, currentLap(tracker, snapshot)],
+    startTime: snapshot.timestamp,
+    startDistance: snapshot.distance,
+    startMovingTime: snapshot.movingTime,
+    maxSpeed: 0,
+  }
+}
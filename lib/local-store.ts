@@ -0,0 +1,61 @@
+type Listener = () => void
+
+export interface LocalStore<T> {
+  get(): T
+  update(changes: Partial<T>): void
+  subscribe(listener: Listener): () => void
+}
+
+// A small object persisted in localStorage, cached in memory and shared across tabs.
+// `parse` turns the stored JSON back into a value, falling back to the defaults when it is invalid.
+export function createLocalStore<T extends object>(
+  key: string,
+  defaults: T,
+  parse: (stored: unknown) => T = (stored) => ({ ...defaults, ...(stored as Partial<T>) }),
+): LocalStore<T> {
+  const listeners = new Set<Listener>()
+  let cached: T | null = null
+
+  const read = (): T => {
+    try {
+      const stored = window.localStorage.getItem(key)
+      return stored ? parse(JSON.parse(stored)) : defaults
+    } catch {
+      return defaults
+    }
+  }
+
+  const get = (): T => {
+    if (typeof window === "undefined") return defaults
+    if (!cached) cached = read()
+    return cached
+  }
+
+  const update = (changes: Partial<T>) => {
+    cached = { ...get(), ...changes }
+    try {
+      window.localStorage.setItem(key, JSON.stringify(cached))
+    } catch (error) {
+      console.error(`Failed to store ${key}:`, error)
+    }
+    listeners.forEach((listener) => listener())
+  }
+
+  // Notify on local updates and on changes made in other tabs
+  const subscribe = (listener: Listener): (() => void) => {
+    const onStorage = (event: StorageEvent) => {
+      if (event.key !== key) return
+      cached = null
+      listener()
+    }
+
+    listeners.add(listener)
+    window.addEventListener("storage", onStorage)
+    return () => {
+      listeners.delete(listener)
+      window.removeEventListener("storage", onStorage)
+    }
+  }
+
+  return { get, update, subscribe }
+}
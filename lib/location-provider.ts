@@ -0,0 +1,35 @@
+import { positionFromGeolocation } from "@/lib/gps-filter"
+import type { Position } from "@/lib/types"
+
+export type LocationErrorCode = "denied" | "unavailable" | "timeout"
+
+// A source of fixes for the geolocation tracker: the browser, or a simulation in developer mode
+export interface LocationProvider {
+  label: string
+  isSupported(): boolean
+  // Start delivering fixes; returns a function that stops them
+  watch(onPosition: (position: Position) => void, onError: (code: LocationErrorCode) => void): () => void
+}
+
+const WATCH_OPTIONS: PositionOptions = {
+  enableHighAccuracy: true,
+  maximumAge: 1000, // use cached fix if it’s <1 s old
+  timeout: 20000, // 20 s to acquire a fix
+}
+
+export const browserLocationProvider: LocationProvider = {
+  label: "Device GPS",
+  isSupported: () => typeof navigator !== "undefined" && "geolocation" in navigator,
+  watch(onPosition, onError) {
+    const id = navigator.geolocation.watchPosition(
+      (position) => onPosition(positionFromGeolocation(position)),
+      (error) => {
+        console.error("Geolocation error:", error)
+        if (error.code === error.PERMISSION_DENIED) onError("denied")
+        else onError(error.code === error.TIMEOUT ? "timeout" : "unavailable")
+      },
+      WATCH_OPTIONS,
+    )
+    return () => navigator.geolocation.clearWatch(id)
+  },
+}
@@ -0,0 +1,191 @@
+import { describe, expect, it } from "vitest"
+import {
+  accumulate,
+  addPosition,
+  computeStats,
+  EMPTY_METRICS,
+  haversineDistance,
+  METERS_PER_DEGREE,
+  movingTime,
+  pace,
+  resetPaceWindow,
+  toStats,
+} from "@/lib/metrics"
+import { northTrack, type NorthTrackOptions } from "@/lib/test-tracks"
+
+// A fix every second at `speed` km/h, climbing half a meter each
+const track = (count: number, speed: number, start: NorthTrackOptions = {}) =>
+  northTrack(count, speed / 3.6, 1, { ...start, climb: 0.5 })
+
+describe("haversineDistance", () => {
+  it("is zero between a point and itself", () => {
+    expect(haversineDistance({ lat: 52, lng: 13 }, { lat: 52, lng: 13 })).toBe(0)
+  })
+
+  it("measures a degree of latitude along a meridian", () => {
+    expect(haversineDistance({ lat: 0, lng: 0 }, { lat: 1, lng: 0 })).toBeCloseTo(METERS_PER_DEGREE, 3)
+  })
+
+  it("shrinks a degree of longitude with the cosine of the latitude", () => {
+    expect(haversineDistance({ lat: 60, lng: 0 }, { lat: 60, lng: 1 })).toBeCloseTo(METERS_PER_DEGREE / 2, -1)
+  })
+
+  it("is symmetric", () => {
+    const berlin = { lat: 52.52, lng: 13.405 }
+    const paris = { lat: 48.8566, lng: 2.3522 }
+    expect(haversineDistance(berlin, paris)).toBeCloseTo(haversineDistance(paris, berlin), 6)
+    expect(haversineDistance(berlin, paris) / 1000).toBeCloseTo(877.5, 1)
+  })
+})
+
+describe("addPosition and accumulate", () => {
+  it("gives the same totals fix by fix as a full replay", () => {
+    const positions = track(120, 10)
+    const incremental = positions.reduce((metrics, position) => addPosition(metrics, position), EMPTY_METRICS)
+    expect(incremental).toEqual(accumulate([positions]))
+  })
+
+  it("gives the same totals fix by fix as a replay of pause-separated segments", () => {
+    const first = track(60, 10)
+    const second = track(60, 12, { meters: (59 * 10) / 3.6, seconds: 120 })
+    let incremental = EMPTY_METRICS
+    for (const segment of [first, second]) {
+      segment.forEach((position, index) => {
+        incremental = addPosition(incremental, position, { resumed: index === 0 && incremental.lastPosition !== null })
+      })
+    }
+    expect(incremental).toEqual(accumulate([first, second]))
+  })
+
+  it("adds up the distance between fixes", () => {
+    const metrics = accumulate([track(61, 10)])
+    expect(metrics.pointCount).toBe(61)
+    expect(metrics.distance).toBeCloseTo((10 / 3.6) * 60, 3)
+    expect(metrics.maxSpeed).toBeCloseTo(10, 6)
+  })
+
+  it("leaves ground covered while paused out of the distance and speeds", () => {
+    const before = northTrack(2, 111, 60)
+    // Walked 1 km while paused, then resumed
+    const after = northTrack(2, 111, 60, { meters: 1111, seconds: 300 })
+    const metrics = accumulate([before, after])
+    expect(metrics.distance).toBeCloseTo(222, 3)
+    expect(metrics.maxSpeed).toBeCloseTo((111 / 60) * 3.6, 6)
+    expect(toStats(metrics, 360, 120).averageSpeed).toBeCloseTo((111 / 60) * 3.6, 6)
+  })
+
+  it("continues from existing totals as if resuming", () => {
+    const positions = track(40, 10)
+    const [head, tail] = [positions.slice(0, 20), positions.slice(20)]
+    expect(accumulate([tail], {}, accumulate([head]))).toEqual(accumulate([head, tail]))
+  })
+})
+
+describe("movingTime", () => {
+  it("sums closed intervals in seconds", () => {
+    expect(
+      movingTime(
+        [
+          { start: 0, end: 60000 },
+          { start: 90000, end: 120000 },
+        ],
+        200000,
+      ),
+    ).toBe(90)
+  })
+
+  it("runs an open interval until now", () => {
+    expect(movingTime([{ start: 0, end: 10000 }, { start: 20000 }], 25000)).toBe(15)
+  })
+
+  it("ignores intervals that end before they start", () => {
+    expect(movingTime([{ start: 5000, end: 1000 }], 10000)).toBe(0)
+  })
+})
+
+describe("pace", () => {
+  it("is seconds per kilometre", () => {
+    expect(pace(1000, 300)).toBe(300)
+    expect(pace(2500, 900)).toBe(360)
+  })
+
+  it("is null before any distance or time", () => {
+    expect(pace(0, 100)).toBeNull()
+    expect(pace(100, 0)).toBeNull()
+  })
+})
+
+describe("toStats", () => {
+  it("bases averages on moving time rather than duration", () => {
+    const metrics = accumulate([track(61, 10)])
+    const stats = toStats(metrics, 120, 60)
+    expect(stats.duration).toBe(120)
+    expect(stats.movingTime).toBe(60)
+    expect(stats.averageSpeed).toBeCloseTo(10, 6)
+    expect(stats.averagePace).toBeCloseTo(360, 6)
+  })
+
+  it("uses the duration as moving time when none is given", () => {
+    const stats = toStats(accumulate([track(61, 10)]), 60)
+    expect(stats.movingTime).toBe(60)
+    expect(stats.averageSpeed).toBeCloseTo(10, 6)
+  })
+
+  it("reports no paces for an empty track", () => {
+    const stats = toStats(EMPTY_METRICS, 0)
+    expect(stats).toMatchObject({ distance: 0, averageSpeed: 0, currentPace: null, averagePace: null, bestPace: null })
+  })
+
+  it("rounds calories and carries the elevation totals", () => {
+    const stats = toStats(accumulate([track(61, 10)]), 60)
+    expect(Number.isInteger(stats.calories)).toBe(true)
+    expect(stats.calories).toBeGreaterThan(0)
+    expect(stats.ascent).toBeGreaterThan(0)
+    expect(stats.descent).toBe(0)
+  })
+
+  it("matches computeStats for a complete track", () => {
+    const segments = [track(61, 10)]
+    expect(computeStats(segments, 60)).toEqual(toStats(accumulate(segments), 60))
+  })
+})
+
+describe("pace window", () => {
+  it("waits for enough seconds of fixes before measuring", () => {
+    const metrics = accumulate([track(10, 10)])
+    expect(metrics.currentSpeed).toBe(0)
+    expect(toStats(metrics, 9).currentPace).toBeNull()
+  })
+
+  it("settles on the speed being run", () => {
+    const stats = toStats(accumulate([track(90, 10)]), 89)
+    expect(stats.currentSpeed).toBeCloseTo(10, 6)
+    expect(stats.currentPace).toBeCloseTo(360, 6)
+    expect(stats.bestPace).toBeCloseTo(360, 6)
+  })
+
+  it("follows a change of speed and remembers the best window", () => {
+    const fast = track(60, 12)
+    const slow = track(120, 8, { meters: (59 * 12) / 3.6, seconds: 59 })
+    const metrics = accumulate([[...fast, ...slow.slice(1)]])
+    expect(metrics.currentSpeed).toBeCloseTo(8, 1)
+    expect(metrics.bestSpeed).toBeCloseTo(12, 1)
+  })
+
+  it("keeps at most 30 seconds of fixes", () => {
+    const metrics = accumulate([track(120, 10)])
+    const recent = metrics.recent
+    expect((recent[recent.length - 1].timestamp - recent[1].timestamp) / 1000).toBeLessThan(30)
+  })
+
+  it("does not count windows too slow to be running", () => {
+    expect(toStats(accumulate([track(60, 1)]), 59).currentPace).toBeNull()
+  })
+
+  it("starts over after a reset", () => {
+    const metrics = resetPaceWindow(accumulate([track(60, 10)]))
+    expect(metrics.recent).toEqual([])
+    expect(metrics.currentSpeed).toBe(0)
+    expect(metrics.bestSpeed).toBeCloseTo(10, 6)
+  })
+})
@@ -0,0 +1,247 @@
+import { activityMet, caloriesFor, MIN_GRADE_DISTANCE, REFERENCE_WEIGHT, segmentGrade } from "@/lib/calories"
+import { addElevation, EMPTY_ELEVATION, type ElevationSample, type ElevationState } from "@/lib/elevation"
+import type { ActivityType, JoggingStats, Position, TimeInterval } from "@/lib/types"
+
+const EARTH_RADIUS = 6371000 // meters
+// Meters per degree of latitude on the sphere haversineDistance uses
+export const METERS_PER_DEGREE = (EARTH_RADIUS * Math.PI) / 180
+const MS_TO_KMH = 3.6
+
+// Current pace is measured over this many seconds of recent fixes, then exponentially smoothed
+const PACE_WINDOW = 30
+const PACE_SMOOTHING = 0.3
+// Windows shorter or slower than this are too noisy to count towards current or best pace
+const MIN_PACE_WINDOW = 10
+const MIN_PACE_SPEED = 1.5 // km/h
+
+// Great-circle distance in meters between two positions using the Haversine formula
+export function haversineDistance(pos1: Pick<Position, "lat" | "lng">, pos2: Pick<Position, "lat" | "lng">): number {
+  const dLat = ((pos2.lat - pos1.lat) * Math.PI) / 180
+  const dLng = ((pos2.lng - pos1.lng) * Math.PI) / 180
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos((pos1.lat * Math.PI) / 180) *
+      Math.cos((pos2.lat * Math.PI) / 180) *
+      Math.sin(dLng / 2) *
+      Math.sin(dLng / 2)
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
+  return EARTH_RADIUS * c
+}
+
+// Speed in km/h between two consecutive fixes, or null when they share a timestamp
+export function segmentSpeed(from: Position, to: Position): number | null {
+  const timeDiff = (to.timestamp - from.timestamp) / 1000 // seconds
+  if (timeDiff <= 0) return null
+  return (haversineDistance(from, to) / timeDiff) * MS_TO_KMH
+}
+
+// Average speed in km/h for a distance (m) covered in a duration (s)
+export function averageSpeed(distance: number, seconds: number): number {
+  return seconds > 0 ? (distance / seconds) * MS_TO_KMH : 0
+}
+
+// Pace in seconds per kilometre, or null before any distance has been covered
+export function pace(distance: number, seconds: number): number | null {
+  if (distance <= 0 || seconds <= 0) return null
+  return seconds / (distance / 1000)
+}
+
+// Total seconds covered by a list of intervals; an open interval runs until `now`
+export function movingTime(intervals: TimeInterval[], now: number): number {
+  let total = 0
+  for (const interval of intervals) {
+    const end = interval.end ?? now
+    if (end > interval.start) total += end - interval.start
+  }
+  return total / 1000
+}
+
+// Running totals for a track, updated in constant time per new fix
+export interface MetricsAccumulator {
+  distance: number
+  maxSpeed: number
+  pointCount: number
+  lastPosition: Position | null
+  // Cumulative distance samples inside the rolling pace window, oldest first
+  recent: { timestamp: number; distance: number }[]
+  // Smoothed speed over the rolling window (km/h) and the fastest such window so far
+  currentSpeed: number
+  bestSpeed: number
+  // Energy spent so far (kcal), from MET values by speed and gradient
+  calories: number
+  // Smoothed elevation with total ascent and descent
+  elevation: ElevationState
+  // Gradient of the smoothed elevation over the last MIN_GRADE_DISTANCE meters, measured from the anchor
+  grade: number
+  gradeAnchor: { distance: number; altitude: number } | null
+}
+
+export interface AccumulateOptions {
+  // Body weight in kg and the activity the MET values are looked up for
+  weight?: number
+  activity?: ActivityType
+  // Marks the first fix after a pause, whose gap is neither exercise nor rest to score, nor distance covered
+  resumed?: boolean
+}
+
+export const EMPTY_METRICS: MetricsAccumulator = {
+  distance: 0,
+  maxSpeed: 0,
+  pointCount: 0,
+  lastPosition: null,
+  recent: [],
+  currentSpeed: 0,
+  bestSpeed: 0,
+  calories: 0,
+  elevation: EMPTY_ELEVATION,
+  grade: 0,
+  gradeAnchor: null,
+}
+
+// The window holds at most PACE_WINDOW seconds of fixes, so this stays constant time per fix
+function updateWindow(metrics: MetricsAccumulator, timestamp: number, distance: number) {
+  const recent = [...metrics.recent, { timestamp, distance }]
+  while (recent.length > 2 && (timestamp - recent[1].timestamp) / 1000 >= PACE_WINDOW) {
+    recent.shift()
+  }
+
+  const oldest = recent[0]
+  const span = (timestamp - oldest.timestamp) / 1000
+  if (span < MIN_PACE_WINDOW) {
+    return { recent, currentSpeed: metrics.currentSpeed, bestSpeed: metrics.bestSpeed }
+  }
+
+  const windowSpeed = averageSpeed(distance - oldest.distance, span)
+  const currentSpeed =
+    metrics.currentSpeed > 0 ? metrics.currentSpeed + PACE_SMOOTHING * (windowSpeed - metrics.currentSpeed) : windowSpeed
+  return { recent, currentSpeed, bestSpeed: Math.max(metrics.bestSpeed, currentSpeed) }
+}
+
+// Gradient is measured over a few meters of track rather than between consecutive fixes
+function updateGrade(metrics: MetricsAccumulator, altitude: number | null, distance: number) {
+  if (altitude === null) return { grade: 0, gradeAnchor: null }
+  const anchor = metrics.gradeAnchor
+  if (!anchor) return { grade: metrics.grade, gradeAnchor: { distance, altitude } }
+  if (distance - anchor.distance < MIN_GRADE_DISTANCE) return { grade: metrics.grade, gradeAnchor: anchor }
+  return {
+    grade: segmentGrade(altitude - anchor.altitude, distance - anchor.distance),
+    gradeAnchor: { distance, altitude },
+  }
+}
+
+// Smoothed elevation at this fix, or null when the fix carries no altitude
+const smoothedAltitude = (elevation: ElevationState, position: Position) =>
+  position.altitude === undefined ? null : elevation.elevation
+
+export function addPosition(
+  metrics: MetricsAccumulator,
+  position: Position,
+  { weight = REFERENCE_WEIGHT, activity = "jog", resumed = false }: AccumulateOptions = {},
+): MetricsAccumulator {
+  const previous = metrics.lastPosition
+  if (!previous) {
+    const elevation = addElevation(metrics.elevation, position, 0)
+    return {
+      ...metrics,
+      pointCount: metrics.pointCount + 1,
+      lastPosition: position,
+      recent: [{ timestamp: position.timestamp, distance: metrics.distance }],
+      elevation,
+      ...updateGrade(metrics, smoothedAltitude(elevation, position), metrics.distance),
+    }
+  }
+
+  // Moving time stops while paused, so ground covered during the pause is left out of the distance too
+  const speed = resumed ? null : segmentSpeed(previous, position)
+  const gap = haversineDistance(previous, position)
+  const distance = metrics.distance + (resumed ? 0 : gap)
+  const elevation = addElevation(metrics.elevation, position, gap)
+  const { grade, gradeAnchor } = updateGrade(metrics, smoothedAltitude(elevation, position), distance)
+  const seconds = (position.timestamp - previous.timestamp) / 1000
+  const segmentCalories = speed === null ? 0 : caloriesFor(activityMet(activity, speed, grade), weight, seconds)
+
+  return {
+    distance,
+    calories: metrics.calories + segmentCalories,
+    elevation,
+    grade,
+    gradeAnchor,
+    maxSpeed: speed === null ? metrics.maxSpeed : Math.max(metrics.maxSpeed, speed),
+    pointCount: metrics.pointCount + 1,
+    lastPosition: position,
+    ...updateWindow(metrics, position.timestamp, distance),
+  }
+}
+
+// Start a fresh pace window, e.g. on resume, so time spent paused is not read as slow running
+export function resetPaceWindow(metrics: MetricsAccumulator): MetricsAccumulator {
+  return { ...metrics, recent: [], currentSpeed: 0 }
+}
+
+const speedToPace = (speed: number) => (speed >= MIN_PACE_SPEED ? 3600 / speed : null)
+
+// Accumulate pause-free stretches of a track, treating the first fix of each later stretch as a resume
+export function accumulate(
+  segments: Position[][],
+  options: Omit<AccumulateOptions, "resumed"> = {},
+  metrics: MetricsAccumulator = EMPTY_METRICS,
+): MetricsAccumulator {
+  return segments.reduce(
+    (total, segment) =>
+      segment.reduce(
+        (acc, position, index) =>
+          addPosition(acc, position, { ...options, resumed: index === 0 && acc.lastPosition !== null }),
+        total,
+      ),
+    metrics,
+  )
+}
+
+// The elevation profile point for a fix just added, or null when it carries no altitude
+export function elevationSample(metrics: MetricsAccumulator, position: Position): ElevationSample | null {
+  const elevation = smoothedAltitude(metrics.elevation, position)
+  if (elevation === null) return null
+  return { distance: metrics.distance, elevation, lat: position.lat, lng: position.lng }
+}
+
+// Smoothed elevation against distance for a complete track
+export function elevationProfile(segments: Position[][]): ElevationSample[] {
+  const samples: ElevationSample[] = []
+  let metrics = EMPTY_METRICS
+  for (const segment of segments) {
+    segment.forEach((position, index) => {
+      metrics = addPosition(metrics, position, { resumed: index === 0 && metrics.lastPosition !== null })
+      const sample = elevationSample(metrics, position)
+      if (sample) samples.push(sample)
+    })
+  }
+  return samples
+}
+
+// Snapshot of the accumulated totals; averages use the moving time so pauses do not drag them down
+export function toStats(metrics: MetricsAccumulator, duration: number, moving = duration): JoggingStats {
+  return {
+    distance: metrics.distance,
+    duration,
+    movingTime: moving,
+    averageSpeed: averageSpeed(metrics.distance, moving),
+    maxSpeed: metrics.maxSpeed,
+    currentSpeed: metrics.currentSpeed,
+    currentPace: speedToPace(metrics.currentSpeed),
+    averagePace: pace(metrics.distance, moving),
+    bestPace: speedToPace(metrics.bestSpeed),
+    calories: Math.round(metrics.calories),
+    ascent: metrics.elevation.ascent,
+    descent: metrics.elevation.descent,
+  }
+}
+
+// Statistics for a complete track lasting `duration` seconds, of which `moving` were spent running
+export function computeStats(
+  segments: Position[][],
+  duration: number,
+  moving = duration,
+  options: Omit<AccumulateOptions, "resumed"> = {},
+): JoggingStats {
+  return toStats(accumulate(segments, options), duration, moving)
+}
@@ -0,0 +1,43 @@
+import { beforeEach, describe, expect, it } from "vitest"
+import { clearNotificationLog, DEDUPE_WINDOW, getNotificationLog, recordNotification } from "@/lib/notifications"
+
+const signalLost = { key: "gps-signal", severity: "warning" as const, title: "GPS signal lost" }
+const gpsFailed = { key: "gps-failed", severity: "error" as const, title: "GPS unavailable" }
+const autoPaused = { key: "auto-pause", severity: "info" as const, title: "Auto-paused" }
+const autoResumed = { key: "auto-resume", severity: "info" as const, title: "Auto-resumed" }
+
+describe("recordNotification", () => {
+  beforeEach(clearNotificationLog)
+
+  it("folds a repeated warning within the window into one entry", () => {
+    recordNotification(signalLost, 0)
+    const { entry, repeated } = recordNotification(signalLost, DEDUPE_WINDOW)
+    expect(repeated).toBe(true)
+    expect(entry).toMatchObject({ title: "GPS signal lost", count: 2, firstAt: 0, lastAt: DEDUPE_WINDOW })
+    expect(getNotificationLog()).toHaveLength(1)
+  })
+
+  it("folds repeated errors", () => {
+    recordNotification(gpsFailed, 0)
+    recordNotification(gpsFailed, 1000)
+    recordNotification(gpsFailed, 2000)
+    expect(getNotificationLog().map((entry) => entry.count)).toEqual([3])
+  })
+
+  it("logs a repeat after the window as a new entry", () => {
+    recordNotification(signalLost, 0)
+    expect(recordNotification(signalLost, DEDUPE_WINDOW + 1).repeated).toBe(false)
+    expect(getNotificationLog().map((entry) => entry.count)).toEqual([1, 1])
+  })
+
+  it("gives every auto-pause and auto-resume its own entry", () => {
+    recordNotification(autoPaused, 0)
+    expect(recordNotification(autoResumed, 5000).repeated).toBe(false)
+    expect(recordNotification(autoPaused, 10000).repeated).toBe(false)
+    expect(getNotificationLog().map(({ title, count }) => `${title} ×${count}`)).toEqual([
+      "Auto-paused ×1",
+      "Auto-resumed ×1",
+      "Auto-paused ×1",
+    ])
+  })
+})
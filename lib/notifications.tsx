@@ -0,0 +1,118 @@
+import { ToastAction } from "@/components/ui/toast"
+import { isToastVisible, toast } from "@/hooks/use-toast"
+
+export type NotificationSeverity = "info" | "success" | "warning" | "error"
+
+export interface NotificationEntry {
+  id: number
+  // Warnings and errors with the same key are one entry; repeats only bump its count
+  key: string
+  severity: NotificationSeverity
+  title: string
+  description?: string
+  count: number
+  firstAt: number
+  lastAt: number
+}
+
+export type NotificationInput = Pick<NotificationEntry, "key" | "severity" | "title" | "description">
+
+// A repeated warning or error within this window of the previous occurrence is folded into it instead of shown again.
+// Other notifications report separate events, such as two auto-pauses, and each get an entry.
+export const DEDUPE_WINDOW = 30000 // ms
+const FOLDED_SEVERITIES: NotificationSeverity[] = ["warning", "error"]
+
+type Listener = () => void
+
+const listeners = new Set<Listener>()
+let log: NotificationEntry[] = []
+let nextId = 1
+
+const publish = () => listeners.forEach((listener) => listener())
+
+export const getNotificationLog = () => log
+
+export function subscribeNotificationLog(listener: Listener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+// Add a notification to the log, reporting whether it repeats a recent problem with the same key
+export function recordNotification(
+  input: NotificationInput,
+  now = Date.now(),
+): { entry: NotificationEntry; repeated: boolean } {
+  const index = FOLDED_SEVERITIES.includes(input.severity) ? log.findLastIndex((entry) => entry.key === input.key) : -1
+  const previous = index >= 0 ? log[index] : null
+
+  if (previous && now - previous.lastAt <= DEDUPE_WINDOW) {
+    const entry = { ...previous, ...input, count: previous.count + 1, lastAt: now }
+    log = [...log.slice(0, index), entry, ...log.slice(index + 1)]
+    publish()
+    return { entry, repeated: true }
+  }
+
+  const entry: NotificationEntry = { ...input, id: nextId++, count: 1, firstAt: now, lastAt: now }
+  log = [...log, entry]
+  publish()
+  return { entry, repeated: false }
+}
+
+// The log covers one session; it is cleared when the next one starts
+export function clearNotificationLog() {
+  if (log.length === 0) return
+  log = []
+  publish()
+}
+
+export interface NotificationAction {
+  label: string
+  onAction: () => void
+}
+
+export interface NotifyOptions {
+  title: string
+  description?: string
+  severity?: NotificationSeverity
+  // Identifies repeats of the same notification; defaults to the title
+  key?: string
+  action?: NotificationAction
+}
+
+// Problems stay on screen longer than confirmations, and errors use the destructive style
+const SEVERITY_STYLES: Record<
+  NotificationSeverity,
+  { duration: number; variant?: "destructive"; className?: string }
+> = {
+  info: { duration: 4000 },
+  success: { duration: 4000, className: "border-green-200 bg-green-50 text-green-900" },
+  warning: { duration: 8000, className: "border-orange-200 bg-orange-50 text-orange-900" },
+  error: { duration: 12000, variant: "destructive" },
+}
+
+// The toast last shown for each key, so a repeat still on screen updates it in place instead of popping up again
+const shown = new Map<string, ReturnType<typeof toast>>()
+
+// Show a non-blocking notification and add it to the session's notification log
+export function notify({ title, description, severity = "info", key = title, action }: NotifyOptions) {
+  const { entry, repeated } = recordNotification({ key, severity, title, description })
+  const content = {
+    title: entry.count > 1 ? `${title} (×${entry.count})` : title,
+    description,
+    action: action && (
+      <ToastAction altText={action.label} onClick={action.onAction}>
+        {action.label}
+      </ToastAction>
+    ),
+  }
+
+  const previous = shown.get(key)
+  // Once that toast has closed or been replaced by a newer one, the repeat needs a toast of its own
+  if (repeated && previous && isToastVisible(previous.id)) {
+    previous.update({ id: previous.id, ...content })
+    return
+  }
+  shown.set(key, toast({ ...content, ...SEVERITY_STYLES[severity] }))
+}
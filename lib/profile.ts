@@ -0,0 +1,83 @@
+import { z } from "zod"
+
+import { REFERENCE_WEIGHT } from "@/lib/calories"
+import { createLocalStore } from "@/lib/local-store"
+import { fromDisplayHeight, fromDisplayWeight } from "@/lib/format"
+import type { UnitSystem } from "@/lib/types"
+
+// Body measurements are stored in kilograms and centimetres whatever the units preference
+export const profileSchema = z
+  .object({
+    weight: z
+      .number()
+      .min(30, "Weight is outside the supported range")
+      .max(250, "Weight is outside the supported range"),
+    height: z
+      .number()
+      .min(100, "Height is outside the supported range")
+      .max(250, "Height is outside the supported range"),
+    age: z
+      .number()
+      .int("Age must be a whole number")
+      .min(10, "Age must be at least 10")
+      .max(100, "Age must be at most 100"),
+    sex: z.enum(["female", "male", "unspecified"]),
+    restingHeartRate: z
+      .number()
+      .int("Heart rate must be a whole number")
+      .min(30, "Resting heart rate must be at least 30 bpm")
+      .max(120, "Resting heart rate must be at most 120 bpm"),
+    maxHeartRate: z
+      .number()
+      .int("Heart rate must be a whole number")
+      .min(100, "Max heart rate must be at least 100 bpm")
+      .max(230, "Max heart rate must be at most 230 bpm"),
+  })
+  .refine((profile) => profile.maxHeartRate > profile.restingHeartRate, {
+    message: "Max heart rate must be above the resting heart rate",
+    path: ["maxHeartRate"],
+  })
+
+export type Profile = z.infer<typeof profileSchema>
+
+export const DEFAULT_PROFILE: Profile = {
+  weight: REFERENCE_WEIGHT,
+  height: 170,
+  age: 30,
+  sex: "unspecified",
+  restingHeartRate: 60,
+  maxHeartRate: 190,
+}
+
+// Form input is typed into text fields and shown in the preferred units (lb and in for imperial)
+export const profileFormSchema = (units: UnitSystem) =>
+  z
+    .object({
+      weight: z.coerce.number({ invalid_type_error: "Enter a number" }),
+      height: z.coerce.number({ invalid_type_error: "Enter a number" }),
+      age: z.coerce.number({ invalid_type_error: "Enter a number" }),
+      sex: profileSchema.innerType().shape.sex,
+      restingHeartRate: z.coerce.number({ invalid_type_error: "Enter a number" }),
+      maxHeartRate: z.coerce.number({ invalid_type_error: "Enter a number" }),
+    })
+    .superRefine((values, ctx) => {
+      const result = profileSchema.safeParse(profileFromForm(values, units))
+      if (!result.success) result.error.issues.forEach((issue) => ctx.addIssue(issue))
+    })
+
+export type ProfileFormValues = z.infer<ReturnType<typeof profileFormSchema>>
+
+export const profileFromForm = (values: ProfileFormValues, units: UnitSystem): Profile => ({
+  ...values,
+  weight: fromDisplayWeight(values.weight, units),
+  height: fromDisplayHeight(values.height, units),
+})
+
+const store = createLocalStore("smart-jogging:profile", DEFAULT_PROFILE, (stored) => {
+  const result = profileSchema.safeParse({ ...DEFAULT_PROFILE, ...(stored as Partial<Profile>) })
+  return result.success ? result.data : DEFAULT_PROFILE
+})
+
+export const getProfile = store.get
+export const updateProfile = store.update
+export const subscribeProfile = store.subscribe
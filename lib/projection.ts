@@ -0,0 +1,129 @@
+import { distanceUnit, lengthUnit, METERS_PER_FOOT, METERS_PER_MILE } from "@/lib/format"
+import type { Position, UnitSystem } from "@/lib/types"
+
+// Web Mercator, in the pixel space of 256 px map tiles: at zoom z the world is 256 · 2^z pixels square.
+// Unlike scaling latitude and longitude independently it keeps shapes true, so a square block looks square.
+
+export type LatLng = Pick<Position, "lat" | "lng">
+
+export interface Point {
+  x: number
+  y: number
+}
+
+// What part of the world a map shows: the point at its center and a (fractional) zoom level
+export interface MapView {
+  center: LatLng
+  zoom: number
+}
+
+export const TILE_SIZE = 256
+export const MIN_ZOOM = 2
+export const MAX_ZOOM = 20
+// Mercator stretches to infinity at the poles; tile maps stop here
+const MAX_LATITUDE = 85.05112878
+const EARTH_CIRCUMFERENCE = 40075016.686 // m at the equator
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value))
+
+export const clampZoom = (zoom: number) => clamp(zoom, MIN_ZOOM, MAX_ZOOM)
+
+const worldSize = (zoom: number) => TILE_SIZE * 2 ** zoom
+
+// World pixel coordinates of a point at `zoom`
+export function project(point: LatLng, zoom: number): Point {
+  const size = worldSize(zoom)
+  const sin = Math.sin((clamp(point.lat, -MAX_LATITUDE, MAX_LATITUDE) * Math.PI) / 180)
+  return {
+    x: ((point.lng + 180) / 360) * size,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * size,
+  }
+}
+
+export function unproject(point: Point, zoom: number): LatLng {
+  const size = worldSize(zoom)
+  const n = Math.PI - (2 * Math.PI * point.y) / size
+  return {
+    lat: (180 / Math.PI) * Math.atan(Math.sinh(n)),
+    lng: (point.x / size) * 360 - 180,
+  }
+}
+
+// Ground distance covered by one screen pixel at a latitude
+export const metersPerPixel = (lat: number, zoom: number) =>
+  (EARTH_CIRCUMFERENCE * Math.cos((lat * Math.PI) / 180)) / worldSize(zoom)
+
+// Map a point to screen pixels of a `width` × `height` viewport showing `view`
+export function toScreen(view: MapView, width: number, height: number): (point: LatLng) => Point {
+  const center = project(view.center, view.zoom)
+  return (point) => {
+    const projected = project(point, view.zoom)
+    return { x: projected.x - center.x + width / 2, y: projected.y - center.y + height / 2 }
+  }
+}
+
+export function fromScreen(view: MapView, width: number, height: number, point: Point): LatLng {
+  const center = project(view.center, view.zoom)
+  return unproject({ x: center.x + point.x - width / 2, y: center.y + point.y - height / 2 }, view.zoom)
+}
+
+// The view that fits every point inside the viewport, leaving `padding` pixels on each side
+export function fitView(points: LatLng[], width: number, height: number, padding = 40, maxZoom = 18): MapView {
+  const lats = points.map((point) => point.lat)
+  const lngs = points.map((point) => point.lng)
+
+  // Measure the bounds at zoom 0 and scale up until they fill the viewport
+  const northWest = project({ lat: Math.max(...lats), lng: Math.min(...lngs) }, 0)
+  const southEast = project({ lat: Math.min(...lats), lng: Math.max(...lngs) }, 0)
+  const spanX = southEast.x - northWest.x
+  const spanY = southEast.y - northWest.y
+  const fitX = spanX > 0 ? Math.log2(Math.max(1, width - 2 * padding) / spanX) : Infinity
+  const fitY = spanY > 0 ? Math.log2(Math.max(1, height - 2 * padding) / spanY) : Infinity
+  const zoom = clamp(Math.min(fitX, fitY, maxZoom), MIN_ZOOM, maxZoom)
+
+  return {
+    center: unproject({ x: (northWest.x + southEast.x) / 2, y: (northWest.y + southEast.y) / 2 }, 0),
+    zoom,
+  }
+}
+
+// Whether every point lands on screen, at least `padding` pixels from the edges
+export function viewContains(view: MapView, points: LatLng[], width: number, height: number, padding = 0): boolean {
+  const toPoint = toScreen(view, width, height)
+  return points.every((point) => {
+    const { x, y } = toPoint(point)
+    return x >= padding && x <= width - padding && y >= padding && y <= height - padding
+  })
+}
+
+// Move the view so the map follows a drag of (dx, dy) screen pixels
+export function panBy(view: MapView, dx: number, dy: number): MapView {
+  const center = project(view.center, view.zoom)
+  return { ...view, center: unproject({ x: center.x - dx, y: center.y - dy }, view.zoom) }
+}
+
+// Zoom in (positive) or out by `delta` levels, keeping the map point under `anchor` where it is on screen
+export function zoomAround(view: MapView, delta: number, anchor: Point, width: number, height: number): MapView {
+  const zoom = clampZoom(view.zoom + delta)
+  const under = fromScreen(view, width, height, anchor)
+  const moved = toScreen({ ...view, zoom }, width, height)(under)
+  return panBy({ ...view, zoom }, anchor.x - moved.x, anchor.y - moved.y)
+}
+
+// The largest round number (1, 2 or 5 × a power of ten) no greater than `max`
+function niceLength(max: number) {
+  const magnitude = 10 ** Math.floor(Math.log10(max))
+  return [5, 2, 1].map((step) => step * magnitude).find((length) => length <= max) ?? magnitude
+}
+
+// A scale bar of at most `maxWidth` pixels: meters or feet, switching to kilometers or miles once they fit
+export function scaleBar(view: MapView, units: UnitSystem, maxWidth = 100): { width: number; label: string } {
+  const perPixel = metersPerPixel(view.center.lat, view.zoom)
+  const maxMeters = perPixel * maxWidth
+  const [small, large] = units === "imperial" ? [METERS_PER_FOOT, METERS_PER_MILE] : [1, 1000]
+
+  const useLarge = maxMeters >= large
+  const length = niceLength(maxMeters / (useLarge ? large : small))
+  const meters = length * (useLarge ? large : small)
+  return { width: meters / perPixel, label: `${length} ${useLarge ? distanceUnit(units) : lengthUnit(units)}` }
+}
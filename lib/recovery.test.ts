@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest"
+import { createLapTracker } from "@/lib/laps"
+import { accumulate, addPosition } from "@/lib/metrics"
+import { checkpointSegments, finalizeCheckpoint, interruptCheckpoint } from "@/lib/recovery"
+import { addSplitPoint, buildSplitTracker } from "@/lib/splits"
+import { northTrack } from "@/lib/test-tracks"
+import type { RecoveredCheckpoint } from "@/lib/types"
+
+// A fix every 10 s, 30 m apart
+const track = (count: number, meters: number, seconds: number) => northTrack(count, 30, 10, { meters, seconds })
+
+// Recording for a minute before the tab crashed
+const beforeCrash = track(7, 0, 0)
+
+const checkpoint: RecoveredCheckpoint = {
+  startTime: 0,
+  state: "running",
+  activity: "jog",
+  splitUnit: "km",
+  smoothed: false,
+  transitions: [{ state: "running", timestamp: 0 }],
+  activeIntervals: [{ start: 0 }],
+  lapTracker: createLapTracker(0),
+  updatedAt: 61000,
+  positions: beforeCrash,
+  smoothedPositions: beforeCrash,
+}
+
+// Reopened ten minutes later, 2 km from where the crash happened
+const afterResume = track(4, 2180, 660)
+
+describe("interruptCheckpoint", () => {
+  it("pauses a running session at its last sign of life", () => {
+    const interrupted = interruptCheckpoint(checkpoint)
+    expect(interrupted.state).toBe("paused")
+    expect(interrupted.transitions.at(-1)).toEqual({ state: "paused", timestamp: 61000, reason: "interrupted" })
+    expect(interrupted.activeIntervals).toEqual([{ start: 0, end: 61000 }])
+  })
+
+  it("leaves a paused session as it was", () => {
+    const paused = interruptCheckpoint(interruptCheckpoint(checkpoint))
+    expect(paused.transitions).toHaveLength(2)
+  })
+})
+
+describe("resuming a recovered session", () => {
+  it("counts no distance across the gap", () => {
+    const segments = checkpointSegments(interruptCheckpoint(checkpoint))
+    let metrics = accumulate(segments)
+    let splits = buildSplitTracker(segments)
+    afterResume.forEach((position, index) => {
+      metrics = addPosition(metrics, position, { resumed: index === 0 })
+      splits = addSplitPoint(splits, position, index === 0, null)
+    })
+    expect(metrics.distance).toBeCloseTo(270, 3)
+    expect(splits.distance).toBeCloseTo(270, 3)
+    expect(splits.time).toBe(90)
+  })
+
+  it("splits the saved track at the interruption", () => {
+    const interrupted = interruptCheckpoint(checkpoint)
+    const resumed: RecoveredCheckpoint = {
+      ...interrupted,
+      state: "running",
+      transitions: [...interrupted.transitions, { state: "running", timestamp: 660000 }],
+      activeIntervals: [...interrupted.activeIntervals, { start: 660000 }],
+      positions: [...beforeCrash, ...afterResume],
+      smoothedPositions: [...beforeCrash, ...afterResume],
+      updatedAt: 691000,
+    }
+    expect(checkpointSegments(resumed).map((segment) => segment.length)).toEqual([7, 4])
+
+    const session = finalizeCheckpoint(resumed)
+    expect(session.stats.distance).toBeCloseTo(270, 3)
+    expect(session.stats.movingTime).toBe(92)
+    expect(session.splits).toHaveLength(1)
+    expect(session.splits?.[0].time).toBe(90)
+  })
+})
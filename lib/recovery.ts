@@ -0,0 +1,67 @@
+import { closeLap } from "@/lib/laps"
+import { accumulate, movingTime, toStats } from "@/lib/metrics"
+import { createSessionId } from "@/lib/session-store"
+import { computeSplits } from "@/lib/splits"
+import { closeInterval, splitSegments } from "@/lib/track"
+import type { JoggingSession, Position, RecoveredCheckpoint } from "@/lib/types"
+
+// The last moment the interrupted tab is known to have been recording
+export function lastRecorded(checkpoint: RecoveredCheckpoint): number {
+  const lastFix = checkpoint.positions[checkpoint.positions.length - 1]
+  return Math.max(checkpoint.updatedAt, lastFix?.timestamp ?? checkpoint.startTime)
+}
+
+// Nothing was recorded between the crash and now, so a running session is treated as paused from its last sign
+// of life. The first fix after resuming then starts a new segment, and distance, moving time and splits skip the
+// gap as they do any pause, instead of reading it as a very slow stretch.
+// A signal loss still open at the crash ends there too; the gap is an interruption, not lost signal.
+export function interruptCheckpoint(checkpoint: RecoveredCheckpoint): RecoveredCheckpoint {
+  const at = lastRecorded(checkpoint)
+  const signalLost = closeInterval(checkpoint.signalLost ?? [], at)
+  if (checkpoint.state !== "running") return { ...checkpoint, signalLost }
+
+  return {
+    ...checkpoint,
+    state: "paused",
+    transitions: [...checkpoint.transitions, { state: "paused", timestamp: at, reason: "interrupted" }],
+    activeIntervals: closeInterval(checkpoint.activeIntervals, at),
+    signalLost,
+  }
+}
+
+// The track the live metrics were computed on, split at every pause
+export function checkpointSegments(checkpoint: RecoveredCheckpoint): Position[][] {
+  const track = checkpoint.smoothed ? checkpoint.smoothedPositions : checkpoint.positions
+  return splitSegments(track, checkpoint.transitions)
+}
+
+// Finish an interrupted session as if it had been stopped when recording stopped
+export function finalizeCheckpoint(checkpoint: RecoveredCheckpoint, weight?: number): JoggingSession {
+  const interrupted = interruptCheckpoint(checkpoint)
+  const endTime = lastRecorded(checkpoint)
+  const segments = checkpointSegments(interrupted)
+  const metrics = accumulate(segments, { weight, activity: checkpoint.activity })
+  const moving = movingTime(interrupted.activeIntervals, endTime)
+  const laps = closeLap(checkpoint.lapTracker, {
+    timestamp: endTime,
+    distance: metrics.distance,
+    movingTime: moving,
+    position: metrics.lastPosition,
+  }).laps
+
+  return {
+    id: createSessionId(),
+    activity: checkpoint.activity,
+    startTime: checkpoint.startTime,
+    endTime,
+    positions: checkpoint.positions,
+    smoothedPositions: checkpoint.smoothedPositions,
+    stats: toStats(metrics, (endTime - checkpoint.startTime) / 1000, moving),
+    transitions: [...interrupted.transitions, { state: "stopped", timestamp: endTime }],
+    activeIntervals: interrupted.activeIntervals,
+    splits: computeSplits(segments, checkpoint.splitUnit),
+    splitUnit: checkpoint.splitUnit,
+    laps,
+    signalLost: interrupted.signalLost,
+  }
+}
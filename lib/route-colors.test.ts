@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest"
+import { extendRouteColors, routeColors, segmentColor, trackRouteColors } from "@/lib/route-colors"
+import type { Position } from "@/lib/types"
+
+// A fix every 5 seconds with speed, climb and accuracy that vary along the way
+const positions: Position[] = Array.from({ length: 200 }, (_, i) => ({
+  lat: 52 + i * 0.0001 + (i % 7) * 0.00002,
+  lng: 13,
+  timestamp: i * 5000,
+  altitude: 30 + Math.sin(i / 10) * 8,
+  accuracy: i % 3 === 0 ? undefined : 3 + (i % 11),
+}))
+
+describe("routeColors", () => {
+  it("is null for a plain route", () => {
+    expect(routeColors(positions, "plain")).toBeNull()
+  })
+
+  it("has a value per segment and leaves unmeasured ones null", () => {
+    const colors = routeColors(positions, "accuracy")!
+    expect(colors.values).toHaveLength(positions.length - 1)
+    expect(colors.values[0]).toBeNull()
+    expect(colors.values[1]).toBe(5)
+    expect(segmentColor(colors, 0)).toBe("#9ca3af")
+  })
+
+  it("centers the grade scale on flat", () => {
+    const { scale } = routeColors(positions, "grade")!
+    expect(scale.min).toBe(-scale.max)
+  })
+})
+
+describe("extendRouteColors", () => {
+  it.each(["pace", "grade", "accuracy"] as const)("colors by %s fix by fix as it would the whole route", (coloring) => {
+    const colors = trackRouteColors(coloring)
+    for (let count = 1; count <= positions.length; count++) {
+      extendRouteColors(colors, positions.slice(0, count))
+    }
+    expect(colors).toEqual(routeColors(positions, coloring))
+  })
+
+  it("picks up where it left off after several fixes at once", () => {
+    const colors = trackRouteColors("pace")
+    extendRouteColors(colors, positions.slice(0, 50))
+    extendRouteColors(colors, positions.slice(0, 60))
+    extendRouteColors(colors, positions)
+    expect(colors).toEqual(routeColors(positions, "pace"))
+  })
+
+  it("keeps the sorted values the scale is read from", () => {
+    const colors = trackRouteColors("pace")
+    extendRouteColors(colors, positions)
+    const measured = colors.values.filter((value) => value !== null)
+    expect(colors.sorted).toEqual([...measured].sort((a, b) => a - b))
+  })
+})
@@ -0,0 +1,145 @@
+import { haversineDistance, segmentSpeed } from "@/lib/metrics"
+import type { Position } from "@/lib/types"
+
+// Heat coloring for the route: every segment gets a color along a gradient by pace, grade or GPS accuracy
+
+export type RouteColoring = "plain" | "pace" | "grade" | "accuracy"
+
+type Rgb = [number, number, number]
+
+const GREEN: Rgb = [16, 185, 129]
+const YELLOW: Rgb = [234, 179, 8]
+const RED: Rgb = [239, 68, 68]
+const BLUE: Rgb = [59, 130, 246]
+
+export const ROUTE_COLORINGS: Record<RouteColoring, { label: string; stops: Rgb[] }> = {
+  plain: { label: "Plain", stops: [BLUE] },
+  // Slow to fast
+  pace: { label: "Pace", stops: [RED, YELLOW, GREEN] },
+  // Downhill through flat to uphill
+  grade: { label: "Grade", stops: [BLUE, GREEN, RED] },
+  // Precise to poor
+  accuracy: { label: "Accuracy", stops: [GREEN, YELLOW, RED] },
+}
+
+export const PLAIN_ROUTE_COLOR = "#3b82f6"
+
+// Segments shorter than this (m) give a meaningless grade
+const MIN_GRADE_DISTANCE = 5
+// The scale ignores this share of the values at each end, so one GPS glitch does not wash out the rest
+const SCALE_OUTLIERS = 0.05
+
+export interface ColorScale {
+  min: number
+  max: number
+}
+
+export interface RouteColors {
+  coloring: Exclude<RouteColoring, "plain">
+  // One value per segment, between fix i and i + 1; null where it cannot be measured
+  values: (number | null)[]
+  scale: ColorScale
+}
+
+// km/h, % grade or meters of horizontal accuracy for the segment from `from` to `to`
+function segmentValue(coloring: RouteColors["coloring"], from: Position, to: Position): number | null {
+  switch (coloring) {
+    case "pace":
+      return segmentSpeed(from, to)
+    case "grade": {
+      const distance = haversineDistance(from, to)
+      if (from.altitude === undefined || to.altitude === undefined || distance < MIN_GRADE_DISTANCE) return null
+      return ((to.altitude - from.altitude) / distance) * 100
+    }
+    case "accuracy":
+      return from.accuracy === undefined || to.accuracy === undefined ? null : Math.max(from.accuracy, to.accuracy)
+  }
+}
+
+// The scale from the measured values in ascending order
+function colorScale(coloring: RouteColors["coloring"], sorted: number[]): ColorScale {
+  if (sorted.length === 0) return { min: 0, max: 0 }
+  const trim = Math.floor(sorted.length * SCALE_OUTLIERS)
+  const min = sorted[trim]
+  const max = sorted[sorted.length - 1 - trim]
+  // Flat stays in the middle of the grade scale
+  if (coloring === "grade") {
+    const extent = Math.max(Math.abs(min), Math.abs(max))
+    return { min: -extent, max: extent }
+  }
+  return { min, max }
+}
+
+// Colors for a route that grows at the end: each new fix adds one segment value, which is inserted into the sorted
+// measured values so the scale is read off them rather than sorting the whole route again
+export interface RouteColorTrack extends RouteColors {
+  sorted: number[]
+}
+
+export const trackRouteColors = (coloring: RouteColors["coloring"]): RouteColorTrack => ({
+  coloring,
+  values: [],
+  scale: { min: 0, max: 0 },
+  sorted: [],
+})
+
+function insertSorted(sorted: number[], value: number) {
+  let low = 0
+  let high = sorted.length
+  while (low < high) {
+    const middle = (low + high) >> 1
+    if (sorted[middle] <= value) low = middle + 1
+    else high = middle
+  }
+  sorted.splice(low, 0, value)
+}
+
+// Add the segments `positions` has beyond those already colored; `positions` must extend the track colored so far
+export function extendRouteColors(colors: RouteColorTrack, positions: Position[]) {
+  const added: number[] = []
+  for (let i = colors.values.length + 1; i < positions.length; i++) {
+    const value = segmentValue(colors.coloring, positions[i - 1], positions[i])
+    colors.values.push(value)
+    if (value !== null) added.push(value)
+  }
+  if (added.length === 0) return
+  // A whole route at once is quicker to sort than to insert a value at a time
+  if (added.length > colors.sorted.length) {
+    for (const value of added) colors.sorted.push(value)
+    colors.sorted.sort((a, b) => a - b)
+  } else added.forEach((value) => insertSorted(colors.sorted, value))
+  colors.scale = colorScale(colors.coloring, colors.sorted)
+}
+
+// Values and scale for coloring a route, or null when it is drawn plain
+export function routeColors(positions: Position[], coloring: RouteColoring): RouteColors | null {
+  if (coloring === "plain") return null
+  const colors = trackRouteColors(coloring)
+  extendRouteColors(colors, positions)
+  return colors
+}
+
+// What the legend shows for a heat-colored route; no scale until a segment could be measured
+export interface RouteColorLegend {
+  coloring: RouteColors["coloring"]
+  scale: ColorScale | null
+}
+
+const mix = (a: Rgb, b: Rgb, t: number) => a.map((channel, i) => Math.round(channel + (b[i] - channel) * t))
+
+// The color for a fraction 0..1 along a coloring's gradient
+export function gradientColor(coloring: RouteColoring, fraction: number): string {
+  const { stops } = ROUTE_COLORINGS[coloring]
+  const position = Math.min(1, Math.max(0, fraction)) * (stops.length - 1)
+  const index = Math.min(stops.length - 2, Math.floor(position))
+  const [r, g, b] = stops.length === 1 ? stops[0] : mix(stops[index], stops[index + 1], position - index)
+  return `rgb(${r}, ${g}, ${b})`
+}
+
+// The color of one segment; unmeasured segments are gray
+export function segmentColor({ coloring, values, scale }: RouteColors, index: number): string {
+  const value = values[index]
+  if (value === null || value === undefined) return "#9ca3af"
+  const span = scale.max - scale.min
+  return gradientColor(coloring, span > 0 ? (value - scale.min) / span : 0.5)
+}
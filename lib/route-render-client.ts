@@ -0,0 +1,81 @@
+import type { RouteColorLegend } from "@/lib/route-colors"
+import {
+  applyRouteMessage,
+  createRouteRenderer,
+  type RouteRenderMessage,
+  type RouteRenderReply,
+  type RouteScene,
+} from "@/lib/route-renderer"
+import type { Position } from "@/lib/types"
+
+// Feeds the route renderer: in a worker when the browser can hand a canvas over to one, else on the main thread.
+// Either way only the fixes recorded since the last update are sent, and the color scale comes back for the legend.
+
+export interface RouteRenderClient {
+  setTrack(positions: Position[]): void
+  setScene(scene: RouteScene): void
+  dispose(): void
+}
+
+interface RenderConnection {
+  post(message: RouteRenderMessage): void
+  dispose(): void
+}
+
+type LegendListener = (legend: RouteColorLegend | null) => void
+
+function connectWorker(canvas: HTMLCanvasElement, onLegend: LegendListener): RenderConnection | null {
+  if (typeof Worker === "undefined" || !("transferControlToOffscreen" in canvas)) return null
+
+  let worker: Worker | null = null
+  try {
+    worker = new Worker(new URL("./route-render-worker.ts", import.meta.url))
+    worker.onmessage = ({ data }: MessageEvent<RouteRenderReply>) => onLegend(data.legend)
+    // After this the canvas belongs to the worker and can no longer be drawn on here
+    const offscreen = canvas.transferControlToOffscreen()
+    const init: RouteRenderMessage = { type: "init", canvas: offscreen }
+    worker.postMessage(init, [offscreen])
+  } catch (error) {
+    console.warn("Drawing the route on the main thread instead of a worker:", error)
+    worker?.terminate()
+    return null
+  }
+
+  const running = worker
+  return { post: (message) => running.postMessage(message), dispose: () => running.terminate() }
+}
+
+function connectMainThread(canvas: HTMLCanvasElement, onLegend: LegendListener): RenderConnection {
+  const renderer = createRouteRenderer(
+    canvas,
+    (width, height) => Object.assign(document.createElement("canvas"), { width, height }),
+    onLegend,
+  )
+  return { post: (message) => applyRouteMessage(renderer, message), dispose: () => renderer.dispose() }
+}
+
+// A canvas can only be handed to a worker once, so create one client per canvas and keep it
+export function createRouteRenderClient(canvas: HTMLCanvasElement, onLegend: LegendListener): RouteRenderClient {
+  const connection = connectWorker(canvas, onLegend) ?? connectMainThread(canvas, onLegend)
+  let sent: Position[] = []
+
+  return {
+    setTrack(positions) {
+      if (positions === sent) return
+      // Recording only ever adds fixes at the end; anything else (a new session, a route loaded) starts over
+      const last = sent[sent.length - 1]
+      const extended = last !== undefined && positions.length >= sent.length && positions[sent.length - 1] === last
+      if (!extended) connection.post({ type: "track", positions, append: false })
+      else if (positions.length > sent.length) {
+        connection.post({ type: "track", positions: positions.slice(sent.length), append: true })
+      }
+      sent = positions
+    },
+    setScene(scene) {
+      connection.post({ type: "scene", scene })
+    },
+    dispose() {
+      connection.dispose()
+    },
+  }
+}
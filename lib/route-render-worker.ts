@@ -0,0 +1,26 @@
+import {
+  applyRouteMessage,
+  createRouteRenderer,
+  type RouteRenderer,
+  type RouteRenderMessage,
+  type RouteRenderReply,
+} from "@/lib/route-renderer"
+
+// Draws the route off the main thread, on the canvas route-render-client hands over
+
+let renderer: RouteRenderer | null = null
+
+self.onmessage = ({ data }: MessageEvent<RouteRenderMessage>) => {
+  if (data.type === "init") {
+    renderer = createRouteRenderer(
+      data.canvas,
+      (width, height) => new OffscreenCanvas(width, height),
+      (legend) => {
+        const reply: RouteRenderReply = { type: "legend", legend }
+        self.postMessage(reply)
+      },
+    )
+    return
+  }
+  if (renderer) applyRouteMessage(renderer, data)
+}
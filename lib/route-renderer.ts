@@ -0,0 +1,494 @@
+import { formatDistance } from "@/lib/format"
+import { fitView, scaleBar, toScreen, type LatLng, type MapView, type Point } from "@/lib/projection"
+import {
+  extendRouteColors,
+  PLAIN_ROUTE_COLOR,
+  segmentColor,
+  trackRouteColors,
+  type ColorScale,
+  type RouteColoring,
+  type RouteColorLegend,
+  type RouteColorTrack,
+} from "@/lib/route-colors"
+import { loadedTile, loadTile, tileUrl, visibleTiles } from "@/lib/tiles"
+import type { Position, UnitSystem } from "@/lib/types"
+
+export type LapMarker = LatLng
+
+// The renderer runs in a worker on an OffscreenCanvas where the browser allows it, else on the page's own canvas
+export type RouteCanvasTarget = HTMLCanvasElement | OffscreenCanvas
+type RouteContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D
+
+// Screen distance between direction arrows, however many fixes the route has
+const ARROW_SPACING = 80 // px
+// The cached route keeps its colors until the scale drifts by more than this share of its span
+const SCALE_TOLERANCE = 0.1
+
+// Everything drawn besides the recorded track, which is sent separately so it can grow a fix at a time
+export interface RouteScene {
+  currentPosition: Position | null
+  distance: number
+  lapMarkers: LapMarker[]
+  // A point picked elsewhere, e.g. by hovering the elevation profile
+  highlight: LapMarker | null
+  units: UnitSystem
+  // The part of the map to show; the whole route when null
+  view: MapView | null
+  // Size in CSS pixels, and canvas pixels per CSS pixel so lines and labels stay sharp on high-density screens
+  width: number
+  height: number
+  pixelRatio: number
+  // Basemap tile URL template, empty for none
+  tileUrl: string
+  tileAttribution: string
+  coloring: RouteColoring
+}
+
+// What the page sends the renderer, whether it runs in a worker or not
+export type RouteRenderMessage =
+  | { type: "init"; canvas: OffscreenCanvas }
+  // Replace the track, or extend it with fixes recorded since the last message
+  | { type: "track"; positions: Position[]; append: boolean }
+  | { type: "scene"; scene: RouteScene }
+
+// What the renderer sends back: the color scale it drew with, for the legend
+export type RouteRenderReply = { type: "legend"; legend: RouteColorLegend | null }
+
+export interface RouteRenderer {
+  setTrack(positions: Position[]): void
+  appendTrack(positions: Position[]): void
+  setScene(scene: RouteScene): void
+  dispose(): void
+}
+
+// Whether the current position has moved on from the last recorded fix, so the route runs on to it
+export function pastLastFix(positions: Position[], currentPosition: Position | null): currentPosition is Position {
+  const last = positions[positions.length - 1]
+  return !!currentPosition && !(last && last.lat === currentPosition.lat && last.lng === currentPosition.lng)
+}
+
+// The route as drawn: the recorded fixes, then the current position if it has moved on from the last one
+export const routePoints = (positions: Position[], currentPosition: Position | null): Position[] =>
+  pastLastFix(positions, currentPosition) ? [...positions, currentPosition] : positions
+
+// The view that shows the whole route, or null before there is anything to show
+export const fitRoute = (points: LatLng[], width: number, height: number): MapView | null =>
+  points.length > 0 ? fitView(points, width, height) : null
+
+export function applyRouteMessage(renderer: RouteRenderer, message: RouteRenderMessage) {
+  switch (message.type) {
+    case "track":
+      if (message.append) renderer.appendTrack(message.positions)
+      else renderer.setTrack(message.positions)
+      break
+    case "scene":
+      renderer.setScene(message.scene)
+      break
+  }
+}
+
+const context2d = (canvas: RouteCanvasTarget): RouteContext | null =>
+  typeof OffscreenCanvas !== "undefined" && canvas instanceof OffscreenCanvas
+    ? canvas.getContext("2d")
+    : (canvas as HTMLCanvasElement).getContext("2d")
+
+// Redraws are coalesced to one per animation frame; workers without requestAnimationFrame fall back to a timer
+const requestFrame = (callback: () => void) =>
+  typeof requestAnimationFrame === "function" ? requestAnimationFrame(callback) : setTimeout(callback, 16)
+
+const scaleDrifted = (cached: ColorScale, current: ColorScale) => {
+  const span = Math.max(cached.max - cached.min, 1e-6)
+  return Math.max(Math.abs(current.min - cached.min), Math.abs(current.max - cached.max)) > span * SCALE_TOLERANCE
+}
+
+// The route path and its arrows are drawn onto a cached layer. While the view stays put, new fixes only add their
+// segments to it; the grid, basemap and markers are cheap and drawn fresh each frame.
+interface RouteLayer {
+  canvas: RouteCanvasTarget
+  ctx: RouteContext
+  // View, size and coloring the layer was drawn for
+  key: string
+  drawn: number
+  scale: ColorScale | null
+  arrows: ArrowWalk
+}
+
+// Draw a recorded route onto a canvas; shared by the live tracker and session history.
+// `createLayer` makes the offscreen canvas the route is cached on; `onLegend` hears of each new color scale.
+export function createRouteRenderer(
+  canvas: RouteCanvasTarget,
+  createLayer: (width: number, height: number) => RouteCanvasTarget,
+  onLegend: (legend: RouteColorLegend | null) => void = () => {},
+): RouteRenderer {
+  let track: Position[] = []
+  let scene: RouteScene | null = null
+  let layer: RouteLayer | null = null
+  // Segment values and scale for the track so far; started over for a new track or coloring
+  let colors: RouteColorTrack | null = null
+  let legendKey: string | null = null
+  // Set when the track is replaced, so the layer is drawn again from the start
+  let stale = false
+  let scheduled = false
+  let disposed = false
+
+  const schedule = () => {
+    if (scheduled || disposed) return
+    scheduled = true
+    requestFrame(() => {
+      scheduled = false
+      if (!disposed && scene) draw(scene)
+    })
+  }
+
+  // Color the fixes added since the last frame, and tell the page when the scale changed
+  const updateColors = (coloring: RouteColoring) => {
+    if (coloring === "plain") colors = null
+    else {
+      if (colors?.coloring !== coloring) colors = trackRouteColors(coloring)
+      extendRouteColors(colors, track)
+    }
+    const legend = colors && { coloring: colors.coloring, scale: colors.sorted.length > 0 ? colors.scale : null }
+    const key = JSON.stringify(legend)
+    if (key !== legendKey) {
+      legendKey = key
+      onLegend(legend)
+    }
+  }
+
+  // Bring the cached route layer up to date with the track, redrawing it from scratch only when it must
+  const updateLayer = (view: MapView, { width, height, pixelRatio, coloring }: RouteScene) => {
+    const key = JSON.stringify([view, width, height, pixelRatio, coloring])
+    if (
+      !layer ||
+      layer.key !== key ||
+      stale ||
+      (colors && layer.scale && scaleDrifted(layer.scale, colors.scale))
+    ) {
+      const deviceWidth = Math.round(width * pixelRatio)
+      const deviceHeight = Math.round(height * pixelRatio)
+      const target =
+        layer && layer.canvas.width === deviceWidth && layer.canvas.height === deviceHeight
+          ? layer.canvas
+          : createLayer(deviceWidth, deviceHeight)
+      const ctx = context2d(target)
+      if (!ctx) return null
+      ctx.setTransform(1, 0, 0, 1, 0, 0)
+      ctx.clearRect(0, 0, deviceWidth, deviceHeight)
+      ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0)
+      layer = { canvas: target, ctx, key, drawn: 0, scale: colors?.scale ?? null, arrows: START_ARROWS }
+      stale = false
+    }
+
+    // Colored with the scale the layer was started with, so the segments already drawn still match
+    const layerColors = colors && layer.scale ? { ...colors, scale: layer.scale } : null
+    const colorAt = layerColors && ((segment: number) => segmentColor(layerColors, segment))
+    const from = Math.max(0, layer.drawn - 1)
+    if (track.length - from > 1) {
+      const path = track.slice(from).map(toScreen(view, width, height))
+      const pathColorAt = colorAt && ((segment: number) => colorAt(from + segment))
+      drawPath(layer.ctx, path, pathColorAt)
+      layer.arrows = drawArrows(layer.ctx, path, pathColorAt ?? (() => PLAIN_ROUTE_COLOR), layer.arrows)
+    }
+    layer.drawn = track.length
+    return { layer, colorAt }
+  }
+
+  const draw = (current: RouteScene) => {
+    const { currentPosition, distance, lapMarkers, highlight, units, view, width, height, pixelRatio } = current
+    const deviceWidth = Math.round(width * pixelRatio)
+    const deviceHeight = Math.round(height * pixelRatio)
+    // Resizing clears the canvas, so only do it when the size really changed
+    if (canvas.width !== deviceWidth || canvas.height !== deviceHeight) {
+      canvas.width = deviceWidth
+      canvas.height = deviceHeight
+    }
+    const ctx = context2d(canvas)
+    if (!ctx) return
+
+    // Draw in CSS pixels
+    ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0)
+
+    // Clear canvas
+    ctx.clearRect(0, 0, width, height)
+
+    // Draw background grid for reference
+    ctx.strokeStyle = "#f0f0f0"
+    ctx.lineWidth = 1
+    const gridSize = 20
+    for (let x = 0; x <= width; x += gridSize) {
+      ctx.beginPath()
+      ctx.moveTo(x, 0)
+      ctx.lineTo(x, height)
+      ctx.stroke()
+    }
+    for (let y = 0; y <= height; y += gridSize) {
+      ctx.beginPath()
+      ctx.moveTo(0, y)
+      ctx.lineTo(width, y)
+      ctx.stroke()
+    }
+
+    updateColors(current.coloring)
+
+    // If we have at least one position, show it
+    if (track.length === 0 && !currentPosition) {
+      // Show "waiting for GPS" message
+      ctx.fillStyle = "#666"
+      ctx.font = "16px Arial"
+      ctx.textAlign = "center"
+      ctx.fillText("Waiting for GPS signal...", width / 2, height / 2)
+      return
+    }
+
+    // The recorded fixes, and the current position if it is beyond them
+    const ahead = pastLastFix(track, currentPosition)
+    const pointCount = track.length + (ahead ? 1 : 0)
+    const start = track[0] ?? currentPosition
+    const mapView = view ?? fitRoute(routePoints(track, currentPosition), width, height)
+    if (!mapView) return
+
+    // Convert lat/lng to canvas coordinates
+    const toCanvasCoords = toScreen(mapView, width, height)
+
+    // Draw the basemap over the grid; tiles still loading are drawn on a later frame
+    if (current.tileUrl) {
+      for (const placed of visibleTiles(mapView, width, height)) {
+        const url = tileUrl(current.tileUrl, placed.tile)
+        const image = loadedTile(url)
+        if (image) ctx.drawImage(image, placed.x, placed.y, placed.size, placed.size)
+        else
+          loadTile(url).then((ready) => {
+            if (ready) schedule()
+          })
+      }
+    }
+
+    // Draw route path if we have multiple positions
+    const route = updateLayer(mapView, current)
+    if (route) {
+      ctx.save()
+      ctx.setTransform(1, 0, 0, 1, 0, 0)
+      ctx.drawImage(route.layer.canvas, 0, 0)
+      ctx.restore()
+
+      // The stretch from the last recorded fix to where the runner is now is not part of the cached track
+      if (ahead && track.length > 0) {
+        const { colorAt } = route
+        drawPath(
+          ctx,
+          [toCanvasCoords(track[track.length - 1]), toCanvasCoords(currentPosition)],
+          colorAt && (() => colorAt(track.length - 2)),
+        )
+      }
+    }
+
+    // Draw start point (green)
+    if (start) {
+      const startCoords = toCanvasCoords(start)
+      ctx.fillStyle = "#10b981"
+      ctx.strokeStyle = "#ffffff"
+      ctx.lineWidth = 2
+      ctx.beginPath()
+      ctx.arc(startCoords.x, startCoords.y, 8, 0, 2 * Math.PI)
+      ctx.fill()
+      ctx.stroke()
+
+      // Add "START" label
+      ctx.fillStyle = "#10b981"
+      ctx.font = "12px Arial"
+      ctx.textAlign = "center"
+      ctx.fillText("START", startCoords.x, startCoords.y - 15)
+    }
+
+    // Draw numbered lap markers (amber) where each lap was closed
+    lapMarkers.forEach((marker, index) => {
+      const coords = toCanvasCoords(marker)
+      ctx.fillStyle = "#f59e0b"
+      ctx.strokeStyle = "#ffffff"
+      ctx.lineWidth = 2
+      ctx.beginPath()
+      ctx.arc(coords.x, coords.y, 7, 0, 2 * Math.PI)
+      ctx.fill()
+      ctx.stroke()
+
+      ctx.fillStyle = "#ffffff"
+      ctx.font = "bold 9px Arial"
+      ctx.textAlign = "center"
+      ctx.textBaseline = "middle"
+      ctx.fillText(String(index + 1), coords.x, coords.y)
+      ctx.textBaseline = "alphabetic"
+    })
+
+    // Draw current position (red) - only if different from start
+    if (currentPosition && start) {
+      const currentCoords = toCanvasCoords(currentPosition)
+      const startCoords = toCanvasCoords(start)
+
+      // Only draw if current position is different from start (moved at least a few pixels)
+      const distance = Math.sqrt(
+        Math.pow(currentCoords.x - startCoords.x, 2) + Math.pow(currentCoords.y - startCoords.y, 2),
+      )
+      if (distance > 5 || pointCount > 1) {
+        ctx.fillStyle = "#ef4444"
+        ctx.strokeStyle = "#ffffff"
+        ctx.lineWidth = 2
+        ctx.beginPath()
+        ctx.arc(currentCoords.x, currentCoords.y, 10, 0, 2 * Math.PI)
+        ctx.fill()
+        ctx.stroke()
+
+        // Add pulsing effect for current position
+        ctx.strokeStyle = "#ef4444"
+        ctx.lineWidth = 1
+        ctx.beginPath()
+        ctx.arc(currentCoords.x, currentCoords.y, 15, 0, 2 * Math.PI)
+        ctx.stroke()
+
+        // Add "YOU" label
+        ctx.fillStyle = "#ef4444"
+        ctx.font = "12px Arial"
+        ctx.textAlign = "center"
+        ctx.fillText("YOU", currentCoords.x, currentCoords.y + 25)
+      }
+    }
+
+    // Draw the highlighted point (violet) on top of the route
+    if (highlight) {
+      const coords = toCanvasCoords(highlight)
+      ctx.fillStyle = "#8b5cf6"
+      ctx.strokeStyle = "#ffffff"
+      ctx.lineWidth = 2
+      ctx.beginPath()
+      ctx.arc(coords.x, coords.y, 6, 0, 2 * Math.PI)
+      ctx.fill()
+      ctx.stroke()
+      ctx.strokeStyle = "#8b5cf6"
+      ctx.beginPath()
+      ctx.arc(coords.x, coords.y, 11, 0, 2 * Math.PI)
+      ctx.stroke()
+    }
+
+    // Show distance info if we have movement
+    if (pointCount > 1) {
+      ctx.fillStyle = "#666"
+      ctx.font = "14px Arial"
+      ctx.textAlign = "left"
+      ctx.fillText(`Distance: ${formatDistance(distance, units)}`, 10, 25)
+      ctx.fillText(`Points: ${pointCount}`, 10, 45)
+    }
+
+    // Scale bar in the bottom left corner
+    const scale = scaleBar(mapView, units)
+    const barY = height - 14
+    ctx.strokeStyle = "#666"
+    ctx.lineWidth = 2
+    ctx.beginPath()
+    ctx.moveTo(10, barY - 5)
+    ctx.lineTo(10, barY)
+    ctx.lineTo(10 + scale.width, barY)
+    ctx.lineTo(10 + scale.width, barY - 5)
+    ctx.stroke()
+    ctx.fillStyle = "#666"
+    ctx.font = "12px Arial"
+    ctx.textAlign = "left"
+    ctx.fillText(scale.label, 14 + scale.width, barY)
+
+    if (current.tileUrl && current.tileAttribution) {
+      ctx.font = "10px Arial"
+      ctx.textAlign = "right"
+      ctx.fillText(current.tileAttribution, width - 6, height - 6)
+    }
+  }
+
+  return {
+    setTrack(positions) {
+      // A copy, since appended fixes are pushed onto it
+      track = [...positions]
+      colors = null
+      stale = true
+      schedule()
+    },
+    appendTrack(positions) {
+      track.push(...positions)
+      schedule()
+    },
+    setScene(next) {
+      scene = next
+      schedule()
+    },
+    dispose() {
+      disposed = true
+    },
+  }
+}
+
+// One stroke for a plain route; one per segment when each has its own color
+function drawPath(ctx: RouteContext, path: Point[], colorAt: ((segment: number) => string) | null) {
+  ctx.lineWidth = 4
+  ctx.lineCap = "round"
+  ctx.lineJoin = "round"
+
+  if (!colorAt) {
+    ctx.strokeStyle = PLAIN_ROUTE_COLOR
+    ctx.beginPath()
+    path.forEach((coords, index) => {
+      if (index === 0) {
+        ctx.moveTo(coords.x, coords.y)
+      } else {
+        ctx.lineTo(coords.x, coords.y)
+      }
+    })
+    ctx.stroke()
+    return
+  }
+
+  for (let i = 1; i < path.length; i++) {
+    ctx.strokeStyle = colorAt(i - 1)
+    ctx.beginPath()
+    ctx.moveTo(path[i - 1].x, path[i - 1].y)
+    ctx.lineTo(path[i].x, path[i].y)
+    ctx.stroke()
+  }
+}
+
+// How far along the path arrows have been placed, so drawing can pick up where it left off
+interface ArrowWalk {
+  travelled: number
+  next: number
+}
+
+const START_ARROWS: ArrowWalk = { travelled: 0, next: ARROW_SPACING / 2 }
+
+// Direction arrows at a fixed spacing along the path on screen, so a long run is not buried under them
+function drawArrows(
+  ctx: RouteContext,
+  path: Point[],
+  colorAt: (segment: number) => string,
+  walk: ArrowWalk = START_ARROWS,
+): ArrowWalk {
+  let { travelled, next } = walk
+
+  for (let i = 1; i < path.length; i++) {
+    const start = path[i - 1]
+    const end = path[i]
+    const length = Math.hypot(end.x - start.x, end.y - start.y)
+    const angle = Math.atan2(end.y - start.y, end.x - start.x)
+
+    for (; next <= travelled + length; next += ARROW_SPACING) {
+      const t = (next - travelled) / length
+      ctx.fillStyle = colorAt(i - 1)
+      ctx.save()
+      ctx.translate(start.x + (end.x - start.x) * t, start.y + (end.y - start.y) * t)
+      ctx.rotate(angle)
+      ctx.beginPath()
+      ctx.moveTo(-5, -3)
+      ctx.lineTo(5, 0)
+      ctx.lineTo(-5, 3)
+      ctx.closePath()
+      ctx.fill()
+      ctx.restore()
+    }
+    travelled += length
+  }
+  return { travelled, next }
+}
@@ -0,0 +1,166 @@
+import { describe, expect, it } from "vitest"
+import {
+  INITIAL_SESSION,
+  SESSION_TRANSITIONS,
+  sessionReducer,
+  type SessionEvent,
+  type SessionEventType,
+  type SessionMachine,
+} from "@/lib/session-machine"
+import type { JoggingState } from "@/lib/types"
+
+const AT = 20000
+
+// A session in each state, as the reducer would have left it
+const MACHINES: Record<JoggingState, SessionMachine> = {
+  idle: INITIAL_SESSION,
+  acquiring: { ...INITIAL_SESSION, state: "acquiring" },
+  running: {
+    state: "running",
+    startTime: 1000,
+    endTime: null,
+    transitions: [{ state: "running", timestamp: 1000 }],
+    activeIntervals: [{ start: 1000 }],
+  },
+  paused: {
+    state: "paused",
+    startTime: 1000,
+    endTime: null,
+    transitions: [
+      { state: "running", timestamp: 1000 },
+      { state: "paused", timestamp: 5000, reason: "manual" },
+    ],
+    activeIntervals: [{ start: 1000, end: 5000 }],
+  },
+  stopped: {
+    state: "stopped",
+    startTime: 1000,
+    endTime: 9000,
+    transitions: [
+      { state: "running", timestamp: 1000 },
+      { state: "stopped", timestamp: 9000 },
+    ],
+    activeIntervals: [{ start: 1000, end: 9000 }],
+  },
+  saved: {
+    state: "saved",
+    startTime: 1000,
+    endTime: 9000,
+    transitions: [
+      { state: "running", timestamp: 1000 },
+      { state: "stopped", timestamp: 9000 },
+    ],
+    activeIntervals: [{ start: 1000, end: 9000 }],
+  },
+}
+
+const checkpoint = {
+  startTime: 500,
+  transitions: [
+    { state: "running" as const, timestamp: 500 },
+    { state: "paused" as const, timestamp: 3000, reason: "interrupted" as const },
+  ],
+  activeIntervals: [{ start: 500, end: 3000 }],
+}
+
+const EVENTS: Record<SessionEventType, SessionEvent> = {
+  start: { type: "start" },
+  cancel: { type: "cancel" },
+  fix: { type: "fix", at: AT },
+  pause: { type: "pause", at: AT, reason: "auto" },
+  resume: { type: "resume", at: AT, reason: "manual" },
+  stop: { type: "stop", at: AT },
+  saved: { type: "saved" },
+  reset: { type: "reset" },
+  restore: { type: "restore", checkpoint },
+}
+
+// What an accepted event must do to the timeline, given the session before and after it
+const EFFECTS: Record<SessionEventType, (before: SessionMachine, after: SessionMachine) => void> = {
+  start: (_before, after) => expect(after).toEqual({ ...INITIAL_SESSION, state: "acquiring" }),
+  cancel: (_before, after) => expect(after).toEqual(INITIAL_SESSION),
+  reset: (_before, after) => expect(after).toEqual(INITIAL_SESSION),
+  fix: (before, after) => {
+    expect(after.startTime).toBe(AT)
+    expect(after.transitions).toEqual([...before.transitions, { state: "running", timestamp: AT }])
+    expect(after.activeIntervals).toEqual([...before.activeIntervals, { start: AT }])
+  },
+  pause: (before, after) => {
+    expect(after.transitions).toEqual([...before.transitions, { state: "paused", timestamp: AT, reason: "auto" }])
+    expect(after.activeIntervals).toEqual([...before.activeIntervals.slice(0, -1), { start: 1000, end: AT }])
+  },
+  resume: (before, after) => {
+    expect(after.transitions).toEqual([...before.transitions, { state: "running", timestamp: AT, reason: "manual" }])
+    expect(after.activeIntervals).toEqual([...before.activeIntervals, { start: AT }])
+  },
+  stop: (before, after) => {
+    expect(after.endTime).toBe(AT)
+    expect(after.transitions).toEqual([...before.transitions, { state: "stopped", timestamp: AT }])
+    // Stopping while running closes the open interval; while paused it is already closed
+    const wasOpen = before.activeIntervals[before.activeIntervals.length - 1]?.end === undefined
+    expect(after.activeIntervals).toEqual(
+      wasOpen ? [...before.activeIntervals.slice(0, -1), { start: 1000, end: AT }] : before.activeIntervals,
+    )
+  },
+  saved: (before, after) => {
+    expect(after).toEqual({ ...before, state: "saved" })
+  },
+  restore: (_before, after) => {
+    expect(after).toEqual({ ...INITIAL_SESSION, state: "paused", ...checkpoint })
+  },
+}
+
+const STATES = Object.keys(MACHINES) as JoggingState[]
+const EVENT_TYPES = Object.keys(EVENTS) as SessionEventType[]
+const CASES = STATES.flatMap((state) => EVENT_TYPES.map((type) => [state, type] as const))
+
+describe("sessionReducer", () => {
+  it.each(CASES)("%s + %s", (state, type) => {
+    const before = MACHINES[state]
+    const snapshot = structuredClone(before)
+    const after = sessionReducer(before, EVENTS[type])
+    const target = SESSION_TRANSITIONS[state][type]
+
+    if (target === undefined) {
+      expect(after).toBe(before)
+    } else {
+      expect(after.state).toBe(target)
+      EFFECTS[type](before, after)
+      // An open interval exactly while running
+      const last = after.activeIntervals[after.activeIntervals.length - 1]
+      expect(last !== undefined && last.end === undefined).toBe(target === "running")
+    }
+    // The previous session is never modified
+    expect(before).toEqual(snapshot)
+  })
+
+  it("records a whole session from start to save", () => {
+    const events: SessionEvent[] = [
+      { type: "start" },
+      { type: "fix", at: 1000 },
+      { type: "fix", at: 2000 },
+      { type: "pause", at: 5000 },
+      { type: "pause", at: 5500 },
+      { type: "resume", at: 8000 },
+      { type: "stop", at: 12000 },
+      { type: "resume", at: 13000 },
+      { type: "saved" },
+    ]
+    const session = events.reduce(sessionReducer, INITIAL_SESSION)
+    expect(session).toEqual({
+      state: "saved",
+      startTime: 1000,
+      endTime: 12000,
+      transitions: [
+        { state: "running", timestamp: 1000 },
+        { state: "paused", timestamp: 5000 },
+        { state: "running", timestamp: 8000 },
+        { state: "stopped", timestamp: 12000 },
+      ],
+      activeIntervals: [
+        { start: 1000, end: 5000 },
+        { start: 8000, end: 12000 },
+      ],
+    })
+  })
+})
@@ -0,0 +1,103 @@
+import { closeInterval, openInterval } from "@/lib/track"
+import type { JoggingState, SessionCheckpoint, StateTransition, TimeInterval } from "@/lib/types"
+
+// The session lifecycle as a pure reducer: idle → acquiring → running ⇄ paused → stopped → saved.
+// Events a state does not accept are ignored, so a late GPS callback or a double tap cannot corrupt the timeline.
+
+export interface SessionMachine {
+  state: JoggingState
+  // Set by the first fix, when recording actually begins
+  startTime: number | null
+  endTime: number | null
+  // Timeline stored with the session; only running, paused and stopped are recorded
+  transitions: StateTransition[]
+  activeIntervals: TimeInterval[]
+}
+
+export type SessionEvent =
+  | { type: "start" }
+  | { type: "cancel" }
+  | { type: "fix"; at: number }
+  | { type: "pause"; at: number; reason?: StateTransition["reason"] }
+  | { type: "resume"; at: number; reason?: StateTransition["reason"] }
+  | { type: "stop"; at: number }
+  | { type: "saved" }
+  | { type: "reset" }
+  // Continue an interrupted session from its checkpoint, paused until it is resumed
+  | { type: "restore"; checkpoint: Pick<SessionCheckpoint, "startTime" | "transitions" | "activeIntervals"> }
+
+export type SessionEventType = SessionEvent["type"]
+
+export const INITIAL_SESSION: SessionMachine = {
+  state: "idle",
+  startTime: null,
+  endTime: null,
+  transitions: [],
+  activeIntervals: [],
+}
+
+// The events each state accepts and the state they lead to
+export const SESSION_TRANSITIONS: Record<JoggingState, Partial<Record<SessionEventType, JoggingState>>> = {
+  idle: { start: "acquiring", restore: "paused" },
+  acquiring: { fix: "running", cancel: "idle" },
+  running: { pause: "paused", stop: "stopped" },
+  paused: { resume: "running", stop: "stopped" },
+  stopped: { saved: "saved", reset: "idle" },
+  saved: { reset: "idle" },
+}
+
+export const canSend = (state: JoggingState, type: SessionEventType) => SESSION_TRANSITIONS[state][type] !== undefined
+
+// The location watcher runs in these states
+export const isLive = (state: JoggingState) => state === "acquiring" || state === "running" || state === "paused"
+
+// A session with a start time and a timeline, not yet stopped
+export const isRecording = (state: JoggingState) => state === "running" || state === "paused"
+
+export const isFinished = (state: JoggingState) => state === "stopped" || state === "saved"
+
+// Enter a recorded state, keeping the active intervals open exactly while running
+function enter(
+  machine: SessionMachine,
+  state: "running" | "paused" | "stopped",
+  at: number,
+  reason?: StateTransition["reason"],
+): SessionMachine {
+  return {
+    ...machine,
+    state,
+    transitions: [...machine.transitions, reason ? { state, timestamp: at, reason } : { state, timestamp: at }],
+    activeIntervals:
+      state === "running" ? openInterval(machine.activeIntervals, at) : closeInterval(machine.activeIntervals, at),
+  }
+}
+
+export function sessionReducer(machine: SessionMachine, event: SessionEvent): SessionMachine {
+  if (!canSend(machine.state, event.type)) return machine
+
+  switch (event.type) {
+    case "start":
+      return { ...INITIAL_SESSION, state: "acquiring" }
+    case "cancel":
+    case "reset":
+      return INITIAL_SESSION
+    case "fix":
+      return enter({ ...machine, startTime: event.at }, "running", event.at)
+    case "pause":
+      return enter(machine, "paused", event.at, event.reason)
+    case "resume":
+      return enter(machine, "running", event.at, event.reason)
+    case "stop":
+      return enter({ ...machine, endTime: event.at }, "stopped", event.at)
+    case "saved":
+      return { ...machine, state: "saved" }
+    case "restore":
+      return {
+        ...INITIAL_SESSION,
+        state: "paused",
+        startTime: event.checkpoint.startTime,
+        transitions: event.checkpoint.transitions,
+        activeIntervals: event.checkpoint.activeIntervals,
+      }
+  }
+}
@@ -0,0 +1,143 @@
+import type { JoggingSession, Position, RecoveredCheckpoint, SessionCheckpoint } from "@/lib/types"
+
+const DB_NAME = "smart-jogging"
+const DB_VERSION = 2
+const SESSIONS_STORE = "sessions"
+// The session in progress: one checkpoint record plus its positions in append-only chunks
+const CHECKPOINT_STORE = "checkpoint"
+const CHECKPOINT_POSITIONS_STORE = "checkpoint-positions"
+const CHECKPOINT_KEY = "active"
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not supported by this browser."))
+      return
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+        const store = db.createObjectStore(SESSIONS_STORE, { keyPath: "id" })
+        store.createIndex("startTime", "startTime")
+      }
+      if (!db.objectStoreNames.contains(CHECKPOINT_STORE)) {
+        db.createObjectStore(CHECKPOINT_STORE)
+      }
+      if (!db.objectStoreNames.contains(CHECKPOINT_POSITIONS_STORE)) {
+        db.createObjectStore(CHECKPOINT_POSITIONS_STORE, { autoIncrement: true })
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+  // Allow a later call to retry if opening failed
+  dbPromise.catch(() => {
+    dbPromise = null
+  })
+
+  return dbPromise
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function complete(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDatabase()
+  const tx = db.transaction(SESSIONS_STORE, mode)
+  return promisify(run(tx.objectStore(SESSIONS_STORE)))
+}
+
+export function createSessionId(): string {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
+    return crypto.randomUUID()
+  }
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`
+}
+
+export async function saveSession(session: JoggingSession): Promise<void> {
+  await withStore("readwrite", (store) => store.put(session))
+}
+
+export async function getSession(id: string): Promise<JoggingSession | undefined> {
+  return withStore<JoggingSession | undefined>("readonly", (store) => store.get(id))
+}
+
+// Newest sessions first
+export async function listSessions(): Promise<JoggingSession[]> {
+  const sessions = await withStore<JoggingSession[]>("readonly", (store) => store.index("startTime").getAll())
+  return sessions.reverse()
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(id))
+}
+
+interface CheckpointChunk {
+  positions: Position[]
+  smoothedPositions: Position[]
+}
+
+// Replace the checkpoint record and append the fixes recorded since the previous call, atomically.
+// `restart` drops previously stored fixes first, for the first write of a session.
+export async function writeCheckpoint(
+  checkpoint: SessionCheckpoint,
+  positions: Position[],
+  smoothedPositions: Position[],
+  restart = false,
+): Promise<void> {
+  const db = await openDatabase()
+  const tx = db.transaction([CHECKPOINT_STORE, CHECKPOINT_POSITIONS_STORE], "readwrite")
+  tx.objectStore(CHECKPOINT_STORE).put(checkpoint, CHECKPOINT_KEY)
+  if (restart) tx.objectStore(CHECKPOINT_POSITIONS_STORE).clear()
+  if (positions.length > 0) {
+    const chunk: CheckpointChunk = { positions, smoothedPositions }
+    tx.objectStore(CHECKPOINT_POSITIONS_STORE).add(chunk)
+  }
+  await complete(tx)
+}
+
+export async function readCheckpoint(): Promise<RecoveredCheckpoint | null> {
+  const db = await openDatabase()
+  const tx = db.transaction([CHECKPOINT_STORE, CHECKPOINT_POSITIONS_STORE], "readonly")
+  const [checkpoint, chunks] = await Promise.all([
+    promisify<SessionCheckpoint | undefined>(tx.objectStore(CHECKPOINT_STORE).get(CHECKPOINT_KEY)),
+    promisify<CheckpointChunk[]>(tx.objectStore(CHECKPOINT_POSITIONS_STORE).getAll()),
+  ])
+  if (!checkpoint) return null
+  return {
+    ...checkpoint,
+    positions: chunks.flatMap((chunk) => chunk.positions),
+    smoothedPositions: chunks.flatMap((chunk) => chunk.smoothedPositions),
+  }
+}
+
+export async function clearCheckpoint(): Promise<void> {
+  const db = await openDatabase()
+  const tx = db.transaction([CHECKPOINT_STORE, CHECKPOINT_POSITIONS_STORE], "readwrite")
+  tx.objectStore(CHECKPOINT_STORE).clear()
+  tx.objectStore(CHECKPOINT_POSITIONS_STORE).clear()
+  await complete(tx)
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest"
+import { DEFAULT_SETTINGS, parseSettings } from "@/lib/settings"
+
+describe("parseSettings", () => {
+  it("keeps valid stored settings", () => {
+    const stored = { ...DEFAULT_SETTINGS, units: "imperial", activity: "cycle", tileUrl: "/tiles/{z}/{x}/{y}.png" }
+    expect(parseSettings(stored)).toEqual(stored)
+  })
+
+  it("fills in settings missing from an older version", () => {
+    expect(parseSettings({ units: "imperial" })).toEqual({ ...DEFAULT_SETTINGS, units: "imperial" })
+  })
+
+  it("drops values this version does not know and keeps the rest", () => {
+    const stored = { ...DEFAULT_SETTINGS, activity: "swim", units: "nautical", routeColoring: "heart" }
+    expect(parseSettings(stored)).toEqual(DEFAULT_SETTINGS)
+    expect(parseSettings({ activity: "walk", developerMode: "yes" })).toEqual({ ...DEFAULT_SETTINGS, activity: "walk" })
+  })
+
+  it("ignores fields it does not know", () => {
+    expect(parseSettings({ ...DEFAULT_SETTINGS, theme: "dark" })).toEqual(DEFAULT_SETTINGS)
+  })
+
+  it("falls back to the defaults for anything but an object", () => {
+    expect(parseSettings(null)).toEqual(DEFAULT_SETTINGS)
+    expect(parseSettings("metric")).toEqual(DEFAULT_SETTINGS)
+  })
+})
@@ -0,0 +1,58 @@
+import { z } from "zod"
+
+import { ACTIVITY_TYPES } from "@/lib/activities"
+import { createLocalStore } from "@/lib/local-store"
+import { ROUTE_COLORINGS, type RouteColoring } from "@/lib/route-colors"
+import type { ActivityType, UnitSystem } from "@/lib/types"
+
+export type PrimaryDisplay = "pace" | "speed"
+
+export interface Settings {
+  // Whether the control panel leads with pace (min/km) or speed (km/h)
+  primaryDisplay: PrimaryDisplay
+  units: UnitSystem
+  // Activity picked before the last Start, preselected next time
+  activity: ActivityType
+  // Shows the simulated location sources for testing without going outside
+  developerMode: boolean
+  // XYZ tile URL template for the basemap under the route, e.g. /tiles/{z}/{x}/{y}.png; empty for no basemap
+  tileUrl: string
+  // Credit shown on the map, as the tile provider requires
+  tileAttribution: string
+  // What the route map colors each segment by
+  routeColoring: RouteColoring
+}
+
+export const DEFAULT_SETTINGS: Settings = {
+  primaryDisplay: "pace",
+  units: "metric",
+  activity: "jog",
+  developerMode: false,
+  tileUrl: "",
+  tileAttribution: "",
+  routeColoring: "plain",
+}
+
+const enumOf = <T extends string>(values: T[]) => z.enum(values as [T, ...T[]])
+
+// Each field is checked on its own, so a value this build does not know (stored by another version, or edited by
+// hand) falls back to its default and the rest are kept
+const settingsSchema = z
+  .object({
+    primaryDisplay: enumOf<PrimaryDisplay>(["pace", "speed"]).catch(DEFAULT_SETTINGS.primaryDisplay),
+    units: enumOf<UnitSystem>(["metric", "imperial"]).catch(DEFAULT_SETTINGS.units),
+    activity: enumOf(ACTIVITY_TYPES).catch(DEFAULT_SETTINGS.activity),
+    developerMode: z.boolean().catch(DEFAULT_SETTINGS.developerMode),
+    tileUrl: z.string().catch(DEFAULT_SETTINGS.tileUrl),
+    tileAttribution: z.string().catch(DEFAULT_SETTINGS.tileAttribution),
+    routeColoring: enumOf(Object.keys(ROUTE_COLORINGS) as RouteColoring[]).catch(DEFAULT_SETTINGS.routeColoring),
+  })
+  .catch(DEFAULT_SETTINGS)
+
+export const parseSettings = (stored: unknown): Settings => settingsSchema.parse(stored)
+
+const store = createLocalStore("smart-jogging:settings", DEFAULT_SETTINGS, parseSettings)
+
+export const getSettings = store.get
+export const updateSettings = store.update
+export const subscribeSettings = store.subscribe
@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { monotonicNow } from "@/lib/clock"
+import { movingTime } from "@/lib/metrics"
+import { INITIAL_SESSION, sessionReducer } from "@/lib/session-machine"
+import {
+  createReplayProvider,
+  createSyntheticProvider,
+  DEFAULT_SYNTHETIC_ROUTE,
+  playbackRate,
+} from "@/lib/simulated-location"
+import type { Position } from "@/lib/types"
+
+// A recorded fix every second for a minute
+const recorded: Position[] = Array.from({ length: 61 }, (_, i) => ({
+  lat: 52 + i * 0.00003,
+  lng: 13,
+  timestamp: 1600000000000 + i * 1000,
+}))
+
+describe("simulated providers", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout", "setInterval", "clearInterval", "Date", "performance"] })
+  })
+
+  afterEach(() => {
+    monotonicNow.setRate(1)
+    vi.useRealTimers()
+  })
+
+  it("replays a track at 10× with fixes in session time", () => {
+    monotonicNow.setRate(10)
+    const fixes: Position[] = []
+    const start = monotonicNow()
+    const stop = createReplayProvider("test", recorded).watch(
+      (fix) => fixes.push(fix),
+      () => {},
+    )
+    vi.advanceTimersByTime(6000)
+    stop()
+
+    expect(fixes).toHaveLength(61)
+    expect(fixes.map((fix) => fix.timestamp - start)).toEqual(recorded.map((_, i) => i * 1000))
+    // The last fix is not ahead of the session clock
+    expect(fixes[60].timestamp).toBeLessThanOrEqual(monotonicNow())
+  })
+
+  it("keeps a sped-up session's timeline in the fixes' time", () => {
+    monotonicNow.setRate(10)
+    let session = sessionReducer(INITIAL_SESSION, { type: "start" })
+    const fixes: Position[] = []
+    const stop = createReplayProvider("test", recorded).watch(
+      (fix) => {
+        if (fixes.length === 0) session = sessionReducer(session, { type: "fix", at: fix.timestamp })
+        fixes.push(fix)
+      },
+      () => {},
+    )
+    vi.advanceTimersByTime(3000)
+    session = sessionReducer(session, { type: "pause", at: monotonicNow() })
+    vi.advanceTimersByTime(1000)
+    session = sessionReducer(session, { type: "resume", at: monotonicNow() })
+    vi.advanceTimersByTime(2000)
+    session = sessionReducer(session, { type: "stop", at: monotonicNow() })
+    stop()
+
+    expect(fixes).toHaveLength(61)
+    // 3 s and 2 s of real time running at 10×
+    expect(movingTime(session.activeIntervals, monotonicNow())).toBe(50)
+    expect(session.endTime).toBeGreaterThanOrEqual(fixes[60].timestamp)
+    const pause = session.transitions[1].timestamp
+    expect(fixes.filter((fix) => fix.timestamp <= pause)).toHaveLength(31)
+  })
+
+  it("runs the synthetic route at the configured speed in session time", () => {
+    monotonicNow.setRate(5)
+    const fixes: Position[] = []
+    const stop = createSyntheticProvider({ ...DEFAULT_SYNTHETIC_ROUTE, dropoutRate: 0, seed: 1 }).watch(
+      (fix) => fixes.push(fix),
+      () => {},
+    )
+    vi.advanceTimersByTime(2000)
+    stop()
+
+    const span = fixes[fixes.length - 1].timestamp - fixes[0].timestamp
+    expect(fixes.length).toBeGreaterThanOrEqual(9)
+    expect(span).toBe((fixes.length - 1) * DEFAULT_SYNTHETIC_ROUTE.interval)
+    expect(fixes[fixes.length - 1].timestamp).toBeLessThanOrEqual(monotonicNow())
+  })
+})
+
+describe("playbackRate", () => {
+  const config = { source: "synthetic" as const, playbackSpeed: 10, replay: null, synthetic: DEFAULT_SYNTHETIC_ROUTE }
+
+  it("speeds up simulations only", () => {
+    expect(playbackRate(config)).toBe(10)
+    expect(playbackRate({ ...config, source: "device" })).toBe(1)
+    // Replay without a track falls back to the device
+    expect(playbackRate({ ...config, source: "replay" })).toBe(1)
+    expect(playbackRate({ ...config, source: "replay", replay: { name: "run", positions: recorded } })).toBe(10)
+  })
+})
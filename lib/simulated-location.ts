@@ -0,0 +1,221 @@
+import { monotonicNow } from "@/lib/clock"
+import { browserLocationProvider, type LocationProvider } from "@/lib/location-provider"
+import { METERS_PER_DEGREE } from "@/lib/metrics"
+import { parseTrackFile, TrackImportError } from "@/lib/track-import"
+import type { Position } from "@/lib/types"
+
+// Developer-mode location sources, so a whole session can be run without going outside.
+// Above 1× the session clock itself runs faster (see playbackRate), so fixes, pauses and moving time all share
+// simulated time and distances, speeds and paces stay true at any playback speed.
+
+export const PLAYBACK_SPEEDS = [1, 2, 5, 10]
+
+// A real receiver reports a timeout when no fix arrives for this long (simulated ms)
+const WATCH_TIMEOUT = 20000
+
+export interface SyntheticRouteOptions {
+  // The loop is a circle of `loopLength` meters around this point
+  center: Pick<Position, "lat" | "lng">
+  loopLength: number
+  speed: number // km/h
+  interval: number // ms between fixes
+  // Standard deviation (m) of the horizontal error added to every fix
+  noise: number
+  // Chance per fix that the signal drops out, and for how long (s)
+  dropoutRate: number
+  dropoutDuration: number
+  // Fixes the random noise and dropouts, for reproducible runs
+  seed?: number
+}
+
+export const DEFAULT_SYNTHETIC_ROUTE: SyntheticRouteOptions = {
+  center: { lat: 51.5079, lng: -0.0877 },
+  loopLength: 2000,
+  speed: 10,
+  interval: 1000,
+  noise: 4,
+  dropoutRate: 0.005,
+  dropoutDuration: 20,
+}
+
+export type LocationSource = "device" | "replay" | "synthetic"
+
+export interface SimulationConfig {
+  source: LocationSource
+  playbackSpeed: number
+  // Track picked for replay, if any
+  replay: { name: string; positions: Position[] } | null
+  synthetic: SyntheticRouteOptions
+}
+
+export const DEFAULT_SIMULATION: SimulationConfig = {
+  source: "device",
+  playbackSpeed: 1,
+  replay: null,
+  synthetic: DEFAULT_SYNTHETIC_ROUTE,
+}
+
+// mulberry32: small, fast and good enough for simulated GPS noise
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// Standard normal sample (Box-Muller)
+const gaussian = (random: () => number) => Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random())
+
+// Offset a point by meters north and east
+function offset(point: Pick<Position, "lat" | "lng">, north: number, east: number) {
+  return {
+    lat: point.lat + north / METERS_PER_DEGREE,
+    lng: point.lng + east / (METERS_PER_DEGREE * Math.cos((point.lat * Math.PI) / 180)),
+  }
+}
+
+// Replay a recorded track in session time. The clock starts on the first watch and keeps running across
+// restarts; once the track is exhausted no more fixes arrive, as if the runner stood still with no signal.
+export function createReplayProvider(name: string, track: Position[]): LocationProvider {
+  const positions = [...track].sort((a, b) => a.timestamp - b.timestamp)
+  const firstTimestamp = positions[0]?.timestamp ?? 0
+  let startedAt: number | null = null
+  let next = 0
+
+  return {
+    label: `Replay of ${name}`,
+    isSupported: () => positions.length > 0,
+    watch(onPosition) {
+      const origin = (startedAt ??= monotonicNow())
+      let timer: ReturnType<typeof setTimeout> | null = null
+
+      const schedule = () => {
+        if (next >= positions.length) return
+        const due = origin + (positions[next].timestamp - firstTimestamp)
+        timer = setTimeout(
+          () => {
+            const fix = positions[next++]
+            onPosition({ ...fix, timestamp: origin + (fix.timestamp - firstTimestamp) })
+            schedule()
+          },
+          Math.max(0, (due - monotonicNow()) / monotonicNow.rate()),
+        )
+      }
+
+      schedule()
+      return () => {
+        if (timer !== null) clearTimeout(timer)
+      }
+    },
+  }
+}
+
+// Laps a circular route at a steady speed with Gaussian position noise, gentle hills and random signal dropouts
+export function createSyntheticProvider(options: SyntheticRouteOptions): LocationProvider {
+  const { center, loopLength, speed, interval, noise, dropoutRate, dropoutDuration } = options
+  const random = createRandom(options.seed ?? Date.now())
+  const radius = loopLength / (2 * Math.PI)
+  let startedAt: number | null = null
+  let lastTick = -1
+  let dropoutUntil = 0
+
+  const fixAt = (elapsed: number): Position => {
+    const angle = ((speed / 3.6) * (elapsed / 1000)) / radius
+    const point = offset(
+      center,
+      radius * Math.sin(angle) + noise * gaussian(random),
+      radius * (1 - Math.cos(angle)) + noise * gaussian(random),
+    )
+    return {
+      ...point,
+      timestamp: (startedAt ?? 0) + elapsed,
+      accuracy: Math.max(3, Math.round(noise * 1.5)),
+      altitude: 30 + 8 * Math.sin(2 * angle) + (noise / 2) * gaussian(random),
+      altitudeAccuracy: Math.max(5, Math.round(noise * 2)),
+      speed: speed / 3.6,
+      // Moving along the circle, the direction of travel from north equals the angle covered
+      heading: ((angle * 180) / Math.PI) % 360,
+    }
+  }
+
+  return {
+    label: "Synthetic route",
+    isSupported: () => true,
+    watch(onPosition, onError) {
+      const origin = (startedAt ??= monotonicNow())
+      let lastDelivered = monotonicNow()
+
+      const timer = setInterval(
+        () => {
+          const elapsed = monotonicNow() - origin
+          const tick = Math.floor(elapsed / interval)
+          if (tick === lastTick) return
+          lastTick = tick
+          const simulated = tick * interval
+
+          if (simulated < dropoutUntil) {
+            if (monotonicNow() - lastDelivered >= WATCH_TIMEOUT) onError("timeout")
+            return
+          }
+          if (random() < dropoutRate) {
+            dropoutUntil = simulated + dropoutDuration * 1000
+            onError("unavailable")
+            return
+          }
+          lastDelivered = monotonicNow()
+          onPosition(fixAt(simulated))
+        },
+        Math.max(10, interval / monotonicNow.rate()),
+      )
+      return () => clearInterval(timer)
+    },
+  }
+}
+
+// The provider the developer settings ask for
+export function simulatedProvider(config: SimulationConfig): LocationProvider {
+  switch (config.source) {
+    case "replay":
+      return config.replay ? createReplayProvider(config.replay.name, config.replay.positions) : browserLocationProvider
+    case "synthetic":
+      return createSyntheticProvider(config.synthetic)
+    default:
+      return browserLocationProvider
+  }
+}
+
+// How fast the session clock runs for a simulation; the device GPS always runs in real time
+export const playbackRate = ({ source, replay, playbackSpeed }: SimulationConfig) =>
+  source === "synthetic" || (source === "replay" && replay) ? playbackSpeed : 1
+
+const isFix = (value: unknown): value is Position =>
+  typeof value === "object" &&
+  value !== null &&
+  ["lat", "lng", "timestamp"].every((key) => typeof (value as Record<string, unknown>)[key] === "number")
+
+// Fixes to replay: a JSON array of recorded positions (or an object holding one), or any track the importer reads
+export function parseReplayTrack(fileName: string, text: string): Position[] {
+  let json: unknown = null
+  try {
+    json = JSON.parse(text)
+  } catch {
+    // Not JSON; GPX and TCX go through the importer below
+  }
+
+  const fixes = Array.isArray(json)
+    ? json
+    : json && typeof json === "object" && Array.isArray((json as { positions?: unknown }).positions)
+      ? (json as { positions: unknown[] }).positions
+      : null
+  if (!fixes) return parseTrackFile(fileName, text).positions
+
+  const positions = fixes.filter(isFix)
+  if (positions.length < 2) {
+    throw new TrackImportError("The track needs at least two fixes with lat, lng and timestamp.")
+  }
+  return positions
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest"
+import { computeSplits } from "@/lib/splits"
+import { northTrack as track } from "@/lib/test-tracks"
+
+describe("computeSplits", () => {
+  it("closes a split at each kilometre, interpolating between fixes", () => {
+    // 300 m a minute for 11 minutes
+    const splits = computeSplits([track(12, 300, 60)])
+    expect(splits.map((split) => split.distance).slice(0, 3)).toEqual([1000, 1000, 1000])
+    splits.slice(0, 3).forEach((split) => expect(split.time).toBeCloseTo(200, 6))
+    expect(splits[2].partial).toBeUndefined()
+    expect(splits[3].partial).toBe(true)
+  })
+
+  it("ends with the partial split in progress", () => {
+    const splits = computeSplits([track(5, 300, 60)])
+    expect(splits).toHaveLength(2)
+    expect(splits[1].partial).toBe(true)
+    expect(splits[1].distance).toBeCloseTo(200, 3)
+    expect(splits[1].time).toBeCloseTo(40, 6)
+  })
+
+  it("compares each split's pace with the one before", () => {
+    const fast = track(5, 250, 60)
+    const slow = track(5, 200, 60, { meters: 1000, seconds: 240 })
+    const splits = computeSplits([[...fast, ...slow.slice(1)]])
+    expect(splits.map((split) => split.comparison)).toEqual([null, "slower"])
+  })
+
+  it("counts neither time nor distance across a pause", () => {
+    const before = track(2, 111, 60)
+    // Walked 1 km while paused, then resumed
+    const after = track(2, 111, 60, { meters: 1111, seconds: 300 })
+    const [split] = computeSplits([before, after])
+    expect(split.distance).toBeCloseTo(222, 3)
+    expect(split.time).toBe(120)
+  })
+
+  it("measures elevation change on the smoothed elevation, not raw GPS altitude", () => {
+    // Flat ground at 30 m with later altitude readings jumping 8 m either way
+    const noisy = track(12, 300, 60).map((position, i) => ({ ...position, altitude: i === 0 ? 30 : i % 2 ? 38 : 22 }))
+    const splits = computeSplits([noisy])
+    splits.forEach((split) => expect(Math.abs(split.elevationChange!)).toBeLessThan(4))
+    // A steady climb comes through
+    const climb = track(12, 300, 60, { climb: 10 })
+    expect(computeSplits([climb])[1].elevationChange).toBeGreaterThan(20)
+  })
+
+  it("uses miles when asked", () => {
+    const splits = computeSplits([track(11, 300, 60)], "mi")
+    expect(splits[0].distance).toBeCloseTo(1609.344, 6)
+    expect(splits[0].time).toBeCloseTo(1609.344 / 5, 6)
+  })
+})
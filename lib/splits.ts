@@ -0,0 +1,129 @@
+import { addPosition, elevationSample, EMPTY_METRICS, haversineDistance, pace } from "@/lib/metrics"
+import type { Position, Split, SplitUnit } from "@/lib/types"
+
+export const SPLIT_DISTANCES: Record<SplitUnit, number> = {
+  km: 1000,
+  mi: 1609.344,
+}
+
+// Running state for live split detection; every field is a plain value so it can live in a ref
+export interface SplitTracker {
+  unit: SplitUnit
+  completed: Split[]
+  last: Position | null
+  // Smoothed elevation at the last fix, as the metrics accumulator measured it
+  lastElevation: number | null
+  // Distance (m) and moving time (s) since the start of the session
+  distance: number
+  time: number
+  // Where the split in progress started
+  splitStartDistance: number
+  splitStartTime: number
+  splitStartElevation: number | null
+}
+
+export function createSplitTracker(unit: SplitUnit = "km"): SplitTracker {
+  return {
+    unit,
+    completed: [],
+    last: null,
+    lastElevation: null,
+    distance: 0,
+    time: 0,
+    splitStartDistance: 0,
+    splitStartTime: 0,
+    splitStartElevation: null,
+  }
+}
+
+function compare(previous: Split | undefined, distance: number, time: number): Split["comparison"] {
+  if (!previous) return null
+  const current = pace(distance, time)
+  const before = pace(previous.distance, previous.time)
+  // Differences under a second per kilometre are noise
+  if (current === null || before === null || Math.abs(current - before) < 1) return "even"
+  return current < before ? "faster" : "slower"
+}
+
+function interpolate(from: number | null, to: number | null, fraction: number): number | null {
+  if (from === null || to === null) return from ?? to
+  return from + (to - from) * fraction
+}
+
+function closeSplit(tracker: SplitTracker, distance: number, time: number, elevation: number | null, partial: boolean) {
+  const length = distance - tracker.splitStartDistance
+  const duration = time - tracker.splitStartTime
+  const split: Split = {
+    index: tracker.completed.length + 1,
+    distance: length,
+    time: duration,
+    elevationChange:
+      elevation !== null && tracker.splitStartElevation !== null ? elevation - tracker.splitStartElevation : null,
+    comparison: compare(tracker.completed[tracker.completed.length - 1], length, duration),
+  }
+  return partial ? { ...split, partial } : split
+}
+
+// Add a recorded fix; `resumed` marks the first fix after a pause, whose gap counts as neither split time nor distance.
+// `elevation` is the smoothed elevation at the fix, so splits climb and descend as the ascent totals do.
+export function addSplitPoint(
+  tracker: SplitTracker,
+  position: Position,
+  resumed: boolean,
+  elevation: number | null,
+): SplitTracker {
+  const previous = tracker.last
+  if (!previous) {
+    return { ...tracker, last: position, lastElevation: elevation, splitStartElevation: elevation }
+  }
+
+  const segmentDistance = resumed ? 0 : haversineDistance(previous, position)
+  const segmentTime = resumed ? 0 : Math.max(0, (position.timestamp - previous.timestamp) / 1000)
+  const unitDistance = SPLIT_DISTANCES[tracker.unit]
+  let next: SplitTracker = { ...tracker, completed: [...tracker.completed] }
+
+  // A single segment can cross more than one boundary after a long gap between fixes
+  let boundary = next.splitStartDistance + unitDistance
+  while (segmentDistance > 0 && tracker.distance + segmentDistance >= boundary) {
+    const fraction = (boundary - tracker.distance) / segmentDistance
+    const time = tracker.time + segmentTime * fraction
+    const crossing = interpolate(tracker.lastElevation, elevation, fraction)
+    next.completed.push(closeSplit(next, boundary, time, crossing, false))
+    next = { ...next, splitStartDistance: boundary, splitStartTime: time, splitStartElevation: crossing }
+    boundary += unitDistance
+  }
+
+  return {
+    ...next,
+    last: position,
+    lastElevation: elevation ?? tracker.lastElevation,
+    distance: tracker.distance + segmentDistance,
+    time: tracker.time + segmentTime,
+    splitStartElevation: next.splitStartElevation ?? elevation,
+  }
+}
+
+// Completed splits plus the partial one in progress, if it has any distance
+export function currentSplits(tracker: SplitTracker): Split[] {
+  if (tracker.distance - tracker.splitStartDistance < 1) return tracker.completed
+  return [...tracker.completed, closeSplit(tracker, tracker.distance, tracker.time, tracker.lastElevation, true)]
+}
+
+// Replay a track given as pause-separated segments, e.g. after switching split units mid-session. The elevation is
+// smoothed along the way, as it was live.
+export function buildSplitTracker(segments: Position[][], unit: SplitUnit = "km"): SplitTracker {
+  let tracker = createSplitTracker(unit)
+  let metrics = EMPTY_METRICS
+  for (const segment of segments) {
+    segment.forEach((position, index) => {
+      const resumed = index === 0 && metrics.lastPosition !== null
+      metrics = addPosition(metrics, position, { resumed })
+      tracker = addSplitPoint(tracker, position, index === 0, elevationSample(metrics, position)?.elevation ?? null)
+    })
+  }
+  return tracker
+}
+
+export function computeSplits(segments: Position[][], unit: SplitUnit = "km"): Split[] {
+  return currentSplits(buildSplitTracker(segments, unit))
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest"
+import { haversineDistance } from "@/lib/metrics"
+import { toTcx } from "@/lib/tcx"
+import { northTrack } from "@/lib/test-tracks"
+import { EMPTY_STATS, type Lap, type StateTransition } from "@/lib/types"
+
+// Ten fixes 100 m apart; the smoothed track runs a straighter 90 m a fix alongside
+const positions = northTrack(10, 100, 30)
+const smoothedPositions = northTrack(10, 90, 30)
+const transitions: StateTransition[] = [
+  { state: "running", timestamp: 0 },
+  { state: "stopped", timestamp: 270000 },
+]
+
+const lap = (index: number, from: number, to: number): Lap => ({
+  index,
+  startTime: from * 30000,
+  endTime: to * 30000,
+  distance: (to - from) * 90,
+  time: (to - from) * 30,
+  maxSpeed: 10.8,
+  endPosition: null,
+})
+
+const session = {
+  startTime: 0,
+  endTime: 270000,
+  positions,
+  smoothedPositions,
+  transitions,
+  stats: { ...EMPTY_STATS, distance: 810, movingTime: 270 },
+  laps: [lap(1, 0, 4), lap(2, 4, 9)],
+}
+
+const values = (xml: string, pattern: RegExp) => [...xml.matchAll(pattern)].map((match) => match[1])
+const TRIGGER = /<TriggerMethod>([^<]*)<\/TriggerMethod>/g
+const lapDistances = (xml: string) => values(xml, /<\/TotalTimeSeconds>\s*<DistanceMeters>([^<]*)</g).map(Number)
+const trackpointDistances = (xml: string) =>
+  values(xml, /<DistanceMeters>([^<]*)<\/DistanceMeters>\s*<\/Trackpoint>/g).map(Number)
+
+describe("toTcx", () => {
+  it("measures trackpoint distances on the track the stats were computed on", () => {
+    const xml = toTcx(session)
+    const distances = trackpointDistances(xml)
+    expect(distances).toHaveLength(10)
+    expect(distances.at(-1)).toBeCloseTo(haversineDistance(smoothedPositions[0], smoothedPositions[9]), 0)
+    expect(distances.at(-1)).toBeCloseTo(lapDistances(xml).reduce((sum, distance) => sum + distance), 0)
+  })
+
+  it("measures the raw track when there is no smoothed one", () => {
+    expect(trackpointDistances(toTcx({ ...session, smoothedPositions: undefined })).at(-1)).toBeCloseTo(900, 0)
+  })
+
+  it("marks only laps closed with the lap button as manual", () => {
+    expect(values(toTcx(session), TRIGGER)).toEqual(["Manual", "Time"])
+    expect(values(toTcx({ ...session, laps: [] }), TRIGGER)).toEqual(["Time"])
+  })
+})
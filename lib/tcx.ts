@@ -0,0 +1,118 @@
+import { ACTIVITIES, sessionActivity } from "@/lib/activities"
+import { formatSummary } from "@/lib/format"
+import { haversineDistance } from "@/lib/metrics"
+import { splitSegments } from "@/lib/track"
+import type { JoggingSession, Lap, Position, UnitSystem } from "@/lib/types"
+import { escapeXml, exportFileStem, toIsoTime } from "@/lib/xml"
+
+const TCX_NAMESPACE = "http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2"
+const TCX_SCHEMA_LOCATION = "http://www.garmin.com/xmlschemas/TrainingCenterDatabasev2.xsd"
+
+export const TCX_MIME_TYPE = "application/vnd.garmin.tcx+xml"
+
+type TcxSource = Pick<
+  JoggingSession,
+  "startTime" | "endTime" | "positions" | "smoothedPositions" | "transitions" | "stats" | "laps" | "activity"
+>
+
+// What ended a lap: the lap button, or the session itself, which TCX has no trigger for and is written as timed
+type TcxLap = Lap & { trigger: "Manual" | "Time" }
+
+function trackpoint(position: Position, distance: number): string {
+  const lines = [
+    "            <Trackpoint>",
+    `              <Time>${toIsoTime(position.timestamp)}</Time>`,
+    "              <Position>",
+    `                <LatitudeDegrees>${position.lat.toFixed(7)}</LatitudeDegrees>`,
+    `                <LongitudeDegrees>${position.lng.toFixed(7)}</LongitudeDegrees>`,
+    "              </Position>",
+  ]
+  if (position.altitude !== undefined && Number.isFinite(position.altitude)) {
+    lines.push(`              <AltitudeMeters>${position.altitude.toFixed(1)}</AltitudeMeters>`)
+  }
+  lines.push(`              <DistanceMeters>${distance.toFixed(1)}</DistanceMeters>`, "            </Trackpoint>")
+  return lines.join("\n")
+}
+
+// Sessions recorded without the lap button are exported as a single lap. The last lap was closed by Stop.
+function sessionLaps(session: TcxSource): TcxLap[] {
+  if (session.laps && session.laps.length > 0) {
+    return session.laps.map((lap, index, laps) => ({ ...lap, trigger: index < laps.length - 1 ? "Manual" : "Time" }))
+  }
+  return [
+    {
+      index: 1,
+      startTime: session.startTime,
+      endTime: session.endTime,
+      distance: session.stats.distance,
+      time: session.stats.movingTime,
+      maxSpeed: session.stats.maxSpeed,
+      endPosition: null,
+      trigger: "Time",
+    },
+  ]
+}
+
+// Serialize a session as a TCX activity with one <Lap> per recorded lap and one <Track> per pause-free stretch.
+// `units` only affects the human-readable <Notes>; TCX values are always metric.
+export function toTcx(session: TcxSource, units: UnitSystem = "metric"): string {
+  const laps = sessionLaps(session)
+  const segments = splitSegments(session.positions, session.transitions)
+
+  // Cumulative distance per point for <DistanceMeters>, measured on the track the stats and laps were (smoothed
+  // when it was kept) and leaving out ground covered while paused like they do
+  const measured = splitSegments(session.smoothedPositions ?? session.positions, session.transitions)
+  const cumulative = new Map<Position, number>()
+  let total = 0
+  segments.forEach((segment, segmentIndex) => {
+    segment.forEach((position, index) => {
+      if (index > 0) total += haversineDistance(measured[segmentIndex][index - 1], measured[segmentIndex][index])
+      cumulative.set(position, total)
+    })
+  })
+
+  const lapXml = laps.map((lap, lapIndex) => {
+    const isLast = lapIndex === laps.length - 1
+    const inLap = (position: Position) =>
+      position.timestamp >= lap.startTime && (isLast ? true : position.timestamp < lap.endTime)
+
+    const tracks = segments
+      .map((segment) => segment.filter(inLap))
+      .filter((segment) => segment.length > 0)
+      .map((segment) =>
+        ["          <Track>", ...segment.map((p) => trackpoint(p, cumulative.get(p) ?? 0)), "          </Track>"].join(
+          "\n",
+        ),
+      )
+
+    const share = session.stats.distance > 0 ? lap.distance / session.stats.distance : 0
+    return [
+      `      <Lap StartTime="${toIsoTime(lap.startTime)}">`,
+      `        <TotalTimeSeconds>${lap.time.toFixed(1)}</TotalTimeSeconds>`,
+      `        <DistanceMeters>${lap.distance.toFixed(1)}</DistanceMeters>`,
+      `        <MaximumSpeed>${(lap.maxSpeed / 3.6).toFixed(2)}</MaximumSpeed>`,
+      `        <Calories>${Math.round(session.stats.calories * share)}</Calories>`,
+      "        <Intensity>Active</Intensity>",
+      `        <TriggerMethod>${lap.trigger}</TriggerMethod>`,
+      ...tracks,
+      "      </Lap>",
+    ].join("\n")
+  })
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<TrainingCenterDatabase xmlns="${TCX_NAMESPACE}"`,
+    `  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="${TCX_NAMESPACE} ${TCX_SCHEMA_LOCATION}">`,
+    "  <Activities>",
+    `    <Activity Sport="${ACTIVITIES[sessionActivity(session)].tcxSport}">`,
+    `      <Id>${toIsoTime(session.startTime)}</Id>`,
+    ...lapXml,
+    `      <Notes>${escapeXml(formatSummary(session.stats.distance, session.stats.movingTime, units))}</Notes>`,
+    "    </Activity>",
+    "  </Activities>",
+    "</TrainingCenterDatabase>",
+    "",
+  ].join("\n")
+}
+
+export const tcxFileName = (startTime: number) => `${exportFileStem(startTime)}.tcx`
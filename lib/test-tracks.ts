@@ -0,0 +1,27 @@
+import { METERS_PER_DEGREE } from "@/lib/metrics"
+import type { Position } from "@/lib/types"
+
+// Synthetic tracks for the unit tests
+
+export interface NorthTrackOptions {
+  // Where and when the first fix is, in meters north of 52° N 13° E and seconds after the epoch
+  meters?: number
+  seconds?: number
+  // Meters climbed per fix from 30 m; fixes carry no altitude without it
+  climb?: number
+}
+
+// `count` fixes heading due north, `step` meters and `interval` seconds apart
+export function northTrack(
+  count: number,
+  step: number,
+  interval: number,
+  { meters = 0, seconds = 0, climb }: NorthTrackOptions = {},
+): Position[] {
+  return Array.from({ length: count }, (_, i) => ({
+    lat: 52 + (meters + i * step) / METERS_PER_DEGREE,
+    lng: 13,
+    timestamp: (seconds + i * interval) * 1000,
+    ...(climb === undefined ? {} : { altitude: 30 + i * climb }),
+  }))
+}
@@ -0,0 +1,179 @@
+import { METERS_PER_DEGREE } from "@/lib/metrics"
+import { project, TILE_SIZE, type LatLng, type MapView } from "@/lib/projection"
+
+// Raster basemap tiles in the usual XYZ scheme, cached with the Cache API so a saved area works offline
+
+export interface TileCoord {
+  z: number
+  x: number
+  y: number
+}
+
+// A tile and where its top left corner lands on screen, `size` pixels square
+export interface PlacedTile {
+  tile: TileCoord
+  x: number
+  y: number
+  size: number
+}
+
+export const MAX_TILE_ZOOM = 19
+export const TILE_CACHE = "smart-jogging:tiles"
+// Stand-in server for a local tile directory; see app/tiles
+export const LOCAL_TILE_URL = "/tiles/{z}/{x}/{y}.png"
+
+// More than this is a city, not a planned route, and would hammer the tile server
+export const MAX_PREFETCH_TILES = 2000
+const PREFETCH_CONCURRENCY = 4
+// Decoded tiles kept for drawing, and how long a failed tile is left before trying again
+const MAX_LOADED_TILES = 256
+const RETRY_FAILED_AFTER = 30000 // ms
+
+export const tileUrl = (template: string, { z, x, y }: TileCoord) =>
+  template.replace("{z}", String(z)).replace("{x}", String(x)).replace("{y}", String(y))
+
+// The tiles covering a viewport, drawn from the nearest whole zoom level and scaled to the view's zoom
+export function visibleTiles(view: MapView, width: number, height: number): PlacedTile[] {
+  const z = Math.max(0, Math.min(MAX_TILE_ZOOM, Math.round(view.zoom)))
+  const size = TILE_SIZE * 2 ** (view.zoom - z)
+  const center = project(view.center, view.zoom)
+  const left = center.x - width / 2
+  const top = center.y - height / 2
+  const count = 2 ** z
+
+  const tiles: PlacedTile[] = []
+  const lastRow = Math.min(count - 1, Math.floor((top + height) / size))
+  for (let y = Math.max(0, Math.floor(top / size)); y <= lastRow; y++) {
+    for (let x = Math.floor(left / size); x <= Math.floor((left + width) / size); x++) {
+      // Columns wrap around the antimeridian
+      tiles.push({ tile: { z, x: ((x % count) + count) % count, y }, x: x * size - left, y: y * size - top, size })
+    }
+  }
+  return tiles
+}
+
+// Every tile within `radius` meters of a point, at each zoom level from `minZoom` to `maxZoom`
+export function tilesAround(center: LatLng, radius: number, minZoom: number, maxZoom: number): TileCoord[] {
+  const dLat = radius / METERS_PER_DEGREE
+  const dLng = radius / (METERS_PER_DEGREE * Math.cos((center.lat * Math.PI) / 180))
+
+  const tiles: TileCoord[] = []
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const northWest = project({ lat: center.lat + dLat, lng: center.lng - dLng }, z)
+    const southEast = project({ lat: center.lat - dLat, lng: center.lng + dLng }, z)
+    const last = 2 ** z - 1
+    const [minX, minY] = [northWest.x, northWest.y].map((value) => Math.max(0, Math.floor(value / TILE_SIZE)))
+    const [maxX, maxY] = [southEast.x, southEast.y].map((value) => Math.min(last, Math.floor(value / TILE_SIZE)))
+    for (let y = minY; y <= maxY; y++) {
+      for (let x = minX; x <= maxX; x++) tiles.push({ z, x, y })
+    }
+  }
+  return tiles
+}
+
+// Without a secure context there is no Cache API; tiles then come from the network (and the HTTP cache) only
+const openTileCache = () => (typeof caches === "undefined" ? Promise.resolve(null) : caches.open(TILE_CACHE))
+
+// A tile from the offline cache, or from the network and stored for next time
+async function fetchTile(url: string): Promise<Blob | null> {
+  const cache = await openTileCache()
+  const cached = await cache?.match(url)
+  if (cached) return cached.blob()
+
+  const response = await fetch(url)
+  if (!response.ok) return null
+  await cache?.put(url, response.clone())
+  return response.blob()
+}
+
+const loaded = new Map<string, ImageBitmap>()
+const loading = new Map<string, Promise<boolean>>()
+const failed = new Map<string, number>()
+
+// The decoded tile, if it has been loaded
+export const loadedTile = (url: string) => loaded.get(url) ?? null
+
+// Load and decode a tile for drawing; resolves true once it is ready, false if it could not be loaded.
+// Callers asking for a tile already on its way share the one request.
+export function loadTile(url: string): Promise<boolean> {
+  if (loaded.has(url)) return Promise.resolve(true)
+  if (Date.now() - (failed.get(url) ?? -Infinity) < RETRY_FAILED_AFTER) return Promise.resolve(false)
+
+  let request = loading.get(url)
+  if (!request) {
+    request = decodeTile(url).finally(() => loading.delete(url))
+    loading.set(url, request)
+  }
+  return request
+}
+
+async function decodeTile(url: string): Promise<boolean> {
+  try {
+    const blob = await fetchTile(url)
+    if (!blob) throw new Error(`No tile at ${url}`)
+    loaded.set(url, await createImageBitmap(blob))
+    failed.delete(url)
+
+    // Forget the tiles loaded longest ago
+    for (const [oldest, image] of loaded) {
+      if (loaded.size <= MAX_LOADED_TILES) break
+      image.close()
+      loaded.delete(oldest)
+    }
+    return true
+  } catch {
+    // Offline or outside the tile set; the grid shows through until a retry succeeds
+    failed.set(url, Date.now())
+    return false
+  }
+}
+
+export class TileCacheUnavailableError extends Error {
+  constructor() {
+    super("Offline maps need the Cache API, which browsers only offer over HTTPS.")
+    this.name = "TileCacheUnavailableError"
+  }
+}
+
+// Download tiles into the offline cache, skipping those already there; `onProgress` counts tiles handled
+export async function prefetchTiles(
+  template: string,
+  tiles: TileCoord[],
+  onProgress?: (done: number, total: number) => void,
+): Promise<{ saved: number; failed: number }> {
+  const cache = await openTileCache()
+  if (!cache) throw new TileCacheUnavailableError()
+
+  const queue = tiles.map((tile) => tileUrl(template, tile))
+  let done = 0
+  let saved = 0
+  let failures = 0
+
+  const worker = async () => {
+    for (let url = queue.shift(); url !== undefined; url = queue.shift()) {
+      try {
+        if (!(await cache.match(url))) {
+          const response = await fetch(url)
+          if (!response.ok) throw new Error(`HTTP ${response.status}`)
+          await cache.put(url, response)
+        }
+        saved++
+      } catch {
+        failures++
+      }
+      onProgress?.(++done, tiles.length)
+    }
+  }
+
+  await Promise.all(Array.from({ length: PREFETCH_CONCURRENCY }, worker))
+  return { saved, failed: failures }
+}
+
+export async function countCachedTiles(): Promise<number> {
+  const cache = await openTileCache()
+  return cache ? (await cache.keys()).length : 0
+}
+
+export async function clearTileCache() {
+  if (typeof caches !== "undefined") await caches.delete(TILE_CACHE)
+}
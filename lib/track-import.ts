@@ -0,0 +1,293 @@
+import { activityFromSport } from "@/lib/activities"
+import { computeStats, movingTime } from "@/lib/metrics"
+import { computeSplits } from "@/lib/splits"
+import { createSessionId } from "@/lib/session-store"
+import type { ActivityType, JoggingSession, Position, StateTransition, TimeInterval } from "@/lib/types"
+
+export type TrackFormat = "gpx" | "tcx" | "geojson"
+
+export class TrackImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "TrackImportError"
+  }
+}
+
+export interface ImportResult {
+  fileName: string
+  session?: JoggingSession
+  error?: string
+}
+
+export const IMPORT_ACCEPT = ".gpx,.tcx,.geojson,.json"
+
+export function detectFormat(fileName: string, text: string): TrackFormat {
+  const extension = fileName.split(".").pop()?.toLowerCase()
+  if (extension === "gpx" || extension === "tcx") return extension
+  if (extension === "geojson" || extension === "json") return "geojson"
+
+  // Fall back to sniffing the content for files without a useful extension
+  const start = text.trimStart()
+  if (start.startsWith("{")) return "geojson"
+  if (/<TrainingCenterDatabase[\s>]/.test(text)) return "tcx"
+  if (/<gpx[\s>]/.test(text)) return "gpx"
+
+  throw new TrackImportError("Unrecognized file type. Expected a GPX, TCX or GeoJSON file.")
+}
+
+function parseXml(text: string, rootName: string): Document {
+  const doc = new DOMParser().parseFromString(text, "application/xml")
+  const parserError = doc.getElementsByTagName("parsererror")[0]
+  if (parserError) {
+    const detail = parserError.textContent?.trim().split("\n")[0]
+    throw new TrackImportError(`The file is not well-formed XML${detail ? `: ${detail}` : "."}`)
+  }
+  if (doc.documentElement.localName !== rootName) {
+    throw new TrackImportError(`Expected a <${rootName}> root element but found <${doc.documentElement.localName}>.`)
+  }
+  return doc
+}
+
+// Namespace-agnostic lookups, since GPX 1.0, GPX 1.1 and TCX all use different default namespaces
+const childrenByName = (parent: Element | Document, name: string) =>
+  Array.from(parent.getElementsByTagNameNS("*", name))
+
+const childText = (parent: Element, name: string) => childrenByName(parent, name)[0]?.textContent?.trim()
+
+function parseTime(value: string | undefined): number | undefined {
+  if (!value) return undefined
+  const timestamp = Date.parse(value)
+  return Number.isNaN(timestamp) ? undefined : timestamp
+}
+
+function parseNumber(value: string | null | undefined): number | undefined {
+  if (value === null || value === undefined || value.trim() === "") return undefined
+  const number = Number(value)
+  return Number.isFinite(number) ? number : undefined
+}
+
+function toPosition(
+  lat?: number,
+  lng?: number,
+  timestamp?: number,
+  altitude?: number,
+  accuracy?: number,
+): Position | null {
+  if (lat === undefined || lng === undefined || timestamp === undefined) return null
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null
+
+  const position: Position = { lat, lng, timestamp }
+  if (altitude !== undefined) position.altitude = altitude
+  if (accuracy !== undefined) position.accuracy = accuracy
+  return position
+}
+
+export function parseGpx(text: string): Position[][] {
+  const doc = parseXml(text, "gpx")
+
+  // Prefer recorded tracks; fall back to routes for files exported by planners
+  let segments = childrenByName(doc, "trkseg").map((segment) => childrenByName(segment, "trkpt"))
+  if (segments.length === 0) {
+    segments = childrenByName(doc, "rte").map((route) => childrenByName(route, "rtept"))
+  }
+
+  return segments.map((points) =>
+    points
+      .map((point) =>
+        toPosition(
+          parseNumber(point.getAttribute("lat")),
+          parseNumber(point.getAttribute("lon")),
+          parseTime(childText(point, "time")),
+          parseNumber(childText(point, "ele")),
+          // Written by our own GPX export as an extension element
+          parseNumber(childText(point, "accuracy")),
+        ),
+      )
+      .filter((position): position is Position => position !== null),
+  )
+}
+
+export function parseTcx(text: string): Position[][] {
+  const doc = parseXml(text, "TrainingCenterDatabase")
+
+  return childrenByName(doc, "Track").map((track) =>
+    childrenByName(track, "Trackpoint")
+      .map((point) => {
+        // Trackpoints without a <Position> only carry sensor data such as heart rate
+        const position = childrenByName(point, "Position")[0]
+        if (!position) return null
+        return toPosition(
+          parseNumber(childText(position, "LatitudeDegrees")),
+          parseNumber(childText(position, "LongitudeDegrees")),
+          parseTime(childText(point, "Time")),
+          parseNumber(childText(point, "AltitudeMeters")),
+        )
+      })
+      .filter((position): position is Position => position !== null),
+  )
+}
+
+interface GeoJsonGeometry {
+  type: string
+  coordinates?: unknown
+}
+
+interface GeoJsonFeature {
+  type: "Feature"
+  geometry: GeoJsonGeometry | null
+  properties?: Record<string, unknown> | null
+}
+
+// Timestamps are not part of GeoJSON; accept the `coordTimes`/`times` conventions used by converters
+function featureTimes(properties: Record<string, unknown> | null | undefined): unknown[] | undefined {
+  const times = properties?.coordTimes ?? properties?.times
+  return Array.isArray(times) ? times : undefined
+}
+
+function lineToPositions(coordinates: unknown, times: unknown): Position[] {
+  if (!Array.isArray(coordinates)) {
+    throw new TrackImportError("LineString coordinates must be an array.")
+  }
+  if (!Array.isArray(times) || times.length !== coordinates.length) {
+    throw new TrackImportError(
+      "GeoJSON tracks need a `coordTimes` or `times` property with one timestamp per coordinate.",
+    )
+  }
+
+  return coordinates
+    .map((coordinate, index) => {
+      if (!Array.isArray(coordinate)) return null
+      const [lng, lat, altitude] = coordinate as unknown[]
+      const time = times[index]
+      return toPosition(
+        typeof lat === "number" ? lat : undefined,
+        typeof lng === "number" ? lng : undefined,
+        typeof time === "number" ? time : parseTime(typeof time === "string" ? time : undefined),
+        typeof altitude === "number" ? altitude : undefined,
+      )
+    })
+    .filter((position): position is Position => position !== null)
+}
+
+export function parseGeoJson(text: string): Position[][] {
+  let data: { type?: string; features?: GeoJsonFeature[]; geometry?: GeoJsonGeometry | null; coordinates?: unknown }
+  try {
+    data = JSON.parse(text)
+  } catch (error) {
+    throw new TrackImportError(`The file is not valid JSON: ${(error as Error).message}`)
+  }
+
+  const features: GeoJsonFeature[] =
+    data.type === "FeatureCollection"
+      ? (data.features ?? [])
+      : data.type === "Feature"
+        ? [data as GeoJsonFeature]
+        : [{ type: "Feature", geometry: data as GeoJsonGeometry }]
+
+  const segments: Position[][] = []
+  for (const feature of features) {
+    const geometry = feature.geometry
+    const times = featureTimes(feature.properties)
+    if (geometry?.type === "LineString") {
+      segments.push(lineToPositions(geometry.coordinates, times))
+    } else if (geometry?.type === "MultiLineString" && Array.isArray(geometry.coordinates)) {
+      geometry.coordinates.forEach((line, index) => segments.push(lineToPositions(line, times?.[index])))
+    }
+  }
+
+  if (segments.length === 0) {
+    throw new TrackImportError("No LineString geometry found in the GeoJSON file.")
+  }
+  return segments
+}
+
+export interface SessionOptions {
+  name?: string
+  activity?: ActivityType
+  // Body weight (kg) the calorie estimate is based on
+  weight?: number
+}
+
+// Build a stored session from imported segments; each segment boundary becomes a pause/resume pair
+export function segmentsToSession(
+  segments: Position[][],
+  { name, activity, weight }: SessionOptions = {},
+): JoggingSession {
+  const nonEmpty = segments
+    .map((segment) => [...segment].sort((a, b) => a.timestamp - b.timestamp))
+    .filter((segment) => segment.length > 0)
+    .sort((a, b) => a[0].timestamp - b[0].timestamp)
+  const positions = nonEmpty.flat()
+
+  if (positions.length < 2) {
+    throw new TrackImportError("The track needs at least two points with coordinates and timestamps.")
+  }
+
+  const startTime = positions[0].timestamp
+  const endTime = positions[positions.length - 1].timestamp
+  const transitions: StateTransition[] = [{ state: "running", timestamp: startTime }]
+  for (let i = 1; i < nonEmpty.length; i++) {
+    const previous = nonEmpty[i - 1]
+    transitions.push(
+      { state: "paused", timestamp: previous[previous.length - 1].timestamp },
+      { state: "running", timestamp: nonEmpty[i][0].timestamp },
+    )
+  }
+  transitions.push({ state: "stopped", timestamp: endTime })
+
+  const activeIntervals: TimeInterval[] = nonEmpty.map((segment) => ({
+    start: segment[0].timestamp,
+    end: segment[segment.length - 1].timestamp,
+  }))
+
+  return {
+    id: createSessionId(),
+    name,
+    activity,
+    startTime,
+    endTime,
+    positions,
+    stats: computeStats(nonEmpty, (endTime - startTime) / 1000, movingTime(activeIntervals, endTime), {
+      weight,
+      activity,
+    }),
+    transitions,
+    activeIntervals,
+    splits: computeSplits(nonEmpty, "km"),
+    splitUnit: "km",
+  }
+}
+
+// The sport recorded by the exporting device: GPX <trk><type> or the TCX Activity Sport attribute
+function trackSport(format: TrackFormat, text: string): string | undefined {
+  if (format === "gpx") return /<(?:\w+:)?type>([^<]*)<\/(?:\w+:)?type>/.exec(text)?.[1]
+  if (format === "tcx") return /<(?:\w+:)?Activity\s[^>]*Sport="([^"]*)"/.exec(text)?.[1]
+  return undefined
+}
+
+export function parseTrackFile(fileName: string, text: string, weight?: number): JoggingSession {
+  const format = detectFormat(fileName, text)
+  const segments = format === "gpx" ? parseGpx(text) : format === "tcx" ? parseTcx(text) : parseGeoJson(text)
+  return segmentsToSession(segments, {
+    name: fileName.replace(/\.[^.]+$/, ""),
+    activity: activityFromSport(trackSport(format, text)),
+    weight,
+  })
+}
+
+// Parse every file independently so one bad file does not abort the rest
+export async function importTrackFiles(files: File[], weight?: number): Promise<ImportResult[]> {
+  return Promise.all(
+    files.map(async (file) => {
+      try {
+        return { fileName: file.name, session: parseTrackFile(file.name, await file.text(), weight) }
+      } catch (error) {
+        const message = error instanceof TrackImportError ? error.message : "Unexpected error while reading the file."
+        if (!(error instanceof TrackImportError)) {
+          console.error(`Failed to import ${file.name}:`, error)
+        }
+        return { fileName: file.name, error: message }
+      }
+    }),
+  )
+}
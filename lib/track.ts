@@ -0,0 +1,47 @@
+import type { Position, StateTransition, TimeInterval } from "@/lib/types"
+
+// Split a recorded track into segments wherever the session was paused between two fixes
+export function splitSegments(positions: Position[], transitions: StateTransition[]): Position[][] {
+  if (positions.length === 0) return []
+
+  const pauseTimes = transitions
+    .filter((transition) => transition.state === "paused")
+    .map((transition) => transition.timestamp)
+    .sort((a, b) => a - b)
+
+  const segments: Position[][] = [[positions[0]]]
+  let pauseIndex = 0
+
+  for (let i = 1; i < positions.length; i++) {
+    const previous = positions[i - 1]
+    const current = positions[i]
+
+    // Skip pauses that happened before the previous fix
+    while (pauseIndex < pauseTimes.length && pauseTimes[pauseIndex] < previous.timestamp) {
+      pauseIndex++
+    }
+
+    if (pauseIndex < pauseTimes.length && pauseTimes[pauseIndex] <= current.timestamp) {
+      segments.push([current])
+      pauseIndex++
+    } else {
+      segments[segments.length - 1].push(current)
+    }
+  }
+
+  return segments
+}
+
+export const hasOpenInterval = (intervals: TimeInterval[]) =>
+  intervals.length > 0 && intervals[intervals.length - 1].end === undefined
+
+// Start a new interval at `at` unless one is already open
+export function openInterval(intervals: TimeInterval[], at: number): TimeInterval[] {
+  return hasOpenInterval(intervals) ? intervals : [...intervals, { start: at }]
+}
+
+// End the open interval at `at`, if there is one
+export function closeInterval(intervals: TimeInterval[], at: number): TimeInterval[] {
+  if (!hasOpenInterval(intervals)) return intervals
+  return [...intervals.slice(0, -1), { ...intervals[intervals.length - 1], end: at }]
+}
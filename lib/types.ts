@@ -0,0 +1,140 @@
+import type { LapTracker } from "@/lib/laps"
+
+export interface Position {
+  lat: number
+  lng: number
+  timestamp: number
+  // Optional fields from the geolocation fix; imported tracks may not have them
+  accuracy?: number
+  altitude?: number
+  altitudeAccuracy?: number
+  speed?: number
+  heading?: number
+}
+
+export interface JoggingStats {
+  distance: number
+  // Wall-clock seconds since the session started, including pauses
+  duration: number
+  // Seconds spent in the running state; speed and pace are based on this
+  movingTime: number
+  averageSpeed: number
+  maxSpeed: number
+  // Smoothed speed (km/h) over the last few seconds
+  currentSpeed: number
+  // Paces in seconds per kilometre; null until there is enough movement to measure
+  currentPace: number | null
+  averagePace: number | null
+  bestPace: number | null
+  calories: number
+  // Total climbing and descending (m) of the smoothed elevation
+  ascent: number
+  descent: number
+}
+
+// A span of time in epoch milliseconds; `end` is absent while the interval is still open
+export interface TimeInterval {
+  start: number
+  end?: number
+}
+
+// "acquiring" waits for the first fix; "saved" is a stopped session that reached the history store
+export type JoggingState = "idle" | "acquiring" | "running" | "paused" | "stopped" | "saved"
+
+export interface StateTransition {
+  state: JoggingState
+  timestamp: number
+  // "auto" marks transitions made by auto-pause rather than the user;
+  // "interrupted" marks a pause inserted for the time a crashed or reloaded tab was not recording
+  reason?: "manual" | "auto" | "interrupted"
+}
+
+export type UnitSystem = "metric" | "imperial"
+
+export type ActivityType = "walk" | "jog" | "run" | "hike" | "cycle"
+
+export type SplitUnit = "km" | "mi"
+
+// One kilometre/mile of a session; boundaries are interpolated between fixes
+export interface Split {
+  index: number
+  distance: number
+  time: number
+  elevationChange: number | null
+  // Pace relative to the previous split; null for the first one
+  comparison: "faster" | "slower" | "even" | null
+  // Set on the trailing split that did not reach the full distance
+  partial?: boolean
+}
+
+// A manually triggered lap; times are epoch milliseconds, `time` is moving seconds
+export interface Lap {
+  index: number
+  startTime: number
+  endTime: number
+  distance: number
+  time: number
+  maxSpeed: number
+  // Where the lap was closed, for drawing a marker on the route
+  endPosition: Pick<Position, "lat" | "lng"> | null
+}
+
+// A finished session as it is persisted in the history store
+export interface JoggingSession {
+  id: string
+  name?: string
+  // Sessions saved before activity types existed are jogs
+  activity?: ActivityType
+  startTime: number
+  endTime: number
+  positions: Position[]
+  // Kalman-smoothed counterpart of `positions`, absent for imported tracks
+  smoothedPositions?: Position[]
+  stats: JoggingStats
+  transitions: StateTransition[]
+  activeIntervals: TimeInterval[]
+  splits?: Split[]
+  splitUnit?: SplitUnit
+  laps?: Lap[]
+  // Periods without GPS fixes while the session was live
+  signalLost?: TimeInterval[]
+}
+
+export const EMPTY_STATS: JoggingStats = {
+  distance: 0,
+  duration: 0,
+  movingTime: 0,
+  averageSpeed: 0,
+  maxSpeed: 0,
+  currentSpeed: 0,
+  currentPace: null,
+  averagePace: null,
+  bestPace: null,
+  calories: 0,
+  ascent: 0,
+  descent: 0,
+}
+
+// Progress of a session in flight, written while recording so it survives a reload or crash.
+// Positions are stored separately in chunks, so each checkpoint only appends the new fixes.
+export interface SessionCheckpoint {
+  startTime: number
+  state: JoggingState
+  activity: ActivityType
+  splitUnit: SplitUnit
+  // Whether the metrics were computed on the Kalman-smoothed track
+  smoothed: boolean
+  transitions: StateTransition[]
+  activeIntervals: TimeInterval[]
+  // Completed laps and where the lap in progress started
+  lapTracker: LapTracker
+  // Absent in checkpoints written before signal loss was tracked
+  signalLost?: TimeInterval[]
+  // Last time the tab was known to be recording
+  updatedAt: number
+}
+
+export interface RecoveredCheckpoint extends SessionCheckpoint {
+  positions: Position[]
+  smoothedPositions: Position[]
+}
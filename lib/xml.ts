@@ -0,0 +1,16 @@
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;")
+}
+
+export const toIsoTime = (timestamp: number) => new Date(timestamp).toISOString()
+
+// File name stem shared by the exporters, e.g. "jog-2024-05-01-0730"
+export function exportFileStem(startTime: number): string {
+  const iso = toIsoTime(startTime)
+  return `jog-${iso.slice(0, 10)}-${iso.slice(11, 16).replace(":", "")}`
+}